@@ -1,7 +1,25 @@
 import * as vscode from "vscode";
-import type { Commit, Ref } from "../git/types.js";
+import { isCurrentCommit, refLabel, type Commit, type Ref } from "../git/types.js";
 import type { GraphRow } from "../graph/types.js";
 import { SvgTileCache, COL_WIDTH } from "../graph/svgTileGen.js";
+import { parseBranchColors, refColor, themedColor, type BranchColorRule, type GraphTheme } from "../graph/colors.js";
+
+// Tiles are sized per section of this many rows: each section is as wide as
+// its widest row, so quiet stretches of history don't inherit the width of a
+// busy one elsewhere in the graph
+const SECTION_ROWS = 100;
+// Lanes shown before the rest fold into a "+N" column, unless configured
+const DEFAULT_MAX_LANES = 12;
+
+/** The palette to draw tiles and badges with on a theme of this kind */
+function graphTheme(kind: vscode.ColorThemeKind): GraphTheme {
+  switch (kind) {
+    case vscode.ColorThemeKind.Light: return "light";
+    case vscode.ColorThemeKind.HighContrast: return "highContrast";
+    case vscode.ColorThemeKind.HighContrastLight: return "highContrastLight";
+    default: return "dark";
+  }
+}
 
 export interface RefHit {
   ref: Ref;
@@ -12,8 +30,18 @@ export interface RefHit {
 export class GraphDecorationEngine {
   private svgCache: SvgTileCache;
   private decorationTypes: vscode.TextEditorDecorationType[] = [];
+  // Each row's graph tile, kept apart so a section can be redrawn wider
+  private tileDecos: vscode.TextEditorDecorationType[] = [];
+  // Tile width in columns of each section drawn so far
+  private sectionCols: number[] = [];
+  private maxLanes = DEFAULT_MAX_LANES;
+  private colorRules: BranchColorRule[] = [];
+  private theme: GraphTheme = "dark";
   private refHits: RefHit[] = [];
   private commits: Commit[] = [];
+  private rows: GraphRow[] = [];
+  private currentBranch: string | undefined;
+  private lineHeight = 0;
   private activeLine = -1;
   private hoverDeco: vscode.TextEditorDecorationType | undefined;
   private hoverTimer: ReturnType<typeof setTimeout> | undefined;
@@ -26,19 +54,64 @@ export class GraphDecorationEngine {
 
   apply(editor: vscode.TextEditor, rows: GraphRow[], commits: Commit[], currentBranch?: string): void {
     this.clearDecorations();
-    this.commits = commits;
-    const lineHeight = this.computeLineHeight(editor);
+    this.rows = [...rows];
+    this.commits = [...commits];
+    this.currentBranch = currentBranch;
+    this.lineHeight = this.computeLineHeight(editor);
+    const config = vscode.workspace.getConfiguration("boomergit");
+    this.maxLanes = Math.max(1, config.get<number>("maxLanes", DEFAULT_MAX_LANES));
+    this.colorRules = parseBranchColors(config.get<Record<string, unknown>>("branchColors", {}));
+    this.theme = graphTheme(vscode.window.activeColorTheme.kind);
+    this.sectionCols = [];
+    this.activeLine = -1;
+    this.decorateRows(editor, 0);
+    this.applyMatchDecos(editor);
+  }
+
+  /**
+   * Decorate a further page of rows appended below the existing ones.
+   * Existing decorations are kept, except that the rows of a section the
+   * page completes are redrawn if it made the section wider.
+   */
+  append(editor: vscode.TextEditor, rows: GraphRow[], commits: Commit[]): void {
+    const from = this.commits.length;
+    this.rows.push(...rows);
+    this.commits.push(...commits);
+    this.decorateRows(editor, from);
+    this.applyMatchDecos(editor);
+  }
 
-    // Use a consistent column count across all rows so SVG tiles have
-    // uniform width — prevents text from shifting left/right per row.
-    const globalMaxCols = Math.max(...rows.map((r) => r.numCols), 1);
-    const tileWidth = globalMaxCols * COL_WIDTH + COL_WIDTH;
+  /**
+   * Tile width in columns for the section starting at row `start`: its
+   * widest row (at least 1), or the lane cap plus the overflow column.
+   * Loops rather than spreading huge arrays into Math.max.
+   */
+  private sectionWidth(start: number): number {
+    let max = 1;
+    const end = Math.min(start + SECTION_ROWS, this.rows.length);
+    for (let i = start; i < end; i++) if (this.rows[i].numCols > max) max = this.rows[i].numCols;
+    return Math.min(max, this.maxLanes + 1);
+  }
 
-    // Find the line with the active branch
-    this.activeLine = -1;
-    if (currentBranch) {
-      for (let i = 0; i < commits.length; i++) {
-        if (commits[i].refs.some((r) => r.type === "branch" && r.name === currentBranch)) {
+  private decorateRows(editor: vscode.TextEditor, from: number): void {
+    const lineHeight = this.lineHeight;
+    const rows = this.rows;
+    const commits = this.commits;
+
+    // A page can end part-way through a section: when the next one widens
+    // it, the section's earlier rows are redrawn to match
+    let firstTile = from;
+    const firstSection = Math.floor(from / SECTION_ROWS);
+    for (let s = firstSection; s * SECTION_ROWS < rows.length; s++) {
+      const cols = this.sectionWidth(s * SECTION_ROWS);
+      if (s === firstSection && cols !== this.sectionCols[s]) firstTile = s * SECTION_ROWS;
+      this.sectionCols[s] = cols;
+    }
+
+    // Find the line with the active branch, or the detached HEAD (it may only turn up in a later page)
+    if (this.activeLine < 0 && this.currentBranch) {
+      for (let i = from; i < commits.length; i++) {
+        if (isCurrentCommit(commits[i], this.currentBranch)) {
           this.activeLine = i;
           break;
         }
@@ -46,20 +119,24 @@ export class GraphDecorationEngine {
     }
     const activeLine = this.activeLine;
 
-    for (let i = 0; i < rows.length && i < commits.length; i++) {
+    for (let i = firstTile; i < rows.length && i < commits.length; i++) {
       const row = rows[i];
-      const svgPath = this.svgCache.getTilePath(row, lineHeight, globalMaxCols);
+      const tileCols = this.sectionCols[Math.floor(i / SECTION_ROWS)];
+      const svgPath = this.svgCache.getTilePath(row, lineHeight, tileCols, this.maxLanes, this.theme);
 
       const isActive = i === activeLine;
+      // A detached HEAD gets the HEAD badge's colour instead of white
+      const detached = isActive && this.currentBranch === "HEAD";
       const decorationType = vscode.window.createTextEditorDecorationType({
-        backgroundColor: isActive ? "#ffffff" : undefined,
-        color: isActive ? "#1e1e1e" : undefined,
+        backgroundColor: detached ? new vscode.ThemeColor("boomergit.detachedHeadBackground")
+          : isActive ? new vscode.ThemeColor("boomergit.activeRowBackground") : undefined,
+        color: isActive ? new vscode.ThemeColor("boomergit.activeRowForeground") : undefined,
         fontWeight: isActive ? "bold" : undefined,
         isWholeLine: isActive,
         before: {
           contentIconPath: vscode.Uri.file(svgPath),
           margin: "0 4px 0 0",
-          width: `${tileWidth}px`,
+          width: `${tileCols * COL_WIDTH + COL_WIDTH}px`,
           height: `${lineHeight}px`,
           textDecoration: "none; vertical-align: top",
         },
@@ -67,10 +144,11 @@ export class GraphDecorationEngine {
 
       const range = new vscode.Range(i, 0, i, 0);
       editor.setDecorations(decorationType, [range]);
-      this.decorationTypes.push(decorationType);
+      this.tileDecos[i]?.dispose();
+      this.tileDecos[i] = decorationType;
     }
 
-    this.applyTextColors(editor, commits, rows, activeLine);
+    this.applyTextColors(editor, from);
   }
 
   /**
@@ -118,14 +196,18 @@ export class GraphDecorationEngine {
     return (0.299 * r + 0.587 * g + 0.114 * b) / 255 > 0.5;
   }
 
-  private applyTextColors(editor: vscode.TextEditor, commits: Commit[], rows: GraphRow[], activeLine: number = -1): void {
+  /** Colour hashes, authors, dates and ref badges for rows from `from` onwards */
+  private applyTextColors(editor: vscode.TextEditor, from: number): void {
+    const commits = this.commits;
+    const rows = this.rows;
     const hashRanges: vscode.DecorationOptions[] = [];
     const authorRanges: vscode.DecorationOptions[] = [];
     const dateRanges: vscode.DecorationOptions[] = [];
-    // Group ref badge ranges by commit color so each gets matching dot color
+    // Group ref badge ranges by colour: a branch's own colour, the one its
+    // lane gets when it starts there; other refs take the commit's colour
     const refByColor = new Map<string, vscode.DecorationOptions[]>();
 
-    for (let i = 0; i < commits.length && i < rows.length; i++) {
+    for (let i = from; i < commits.length && i < rows.length; i++) {
       const line = editor.document.lineAt(i);
       const text = line.text;
       const commit = commits[i];
@@ -142,14 +224,16 @@ export class GraphDecorationEngine {
       // Find each ref token: " name " appearing after the hash
       let searchFrom = 10; // past "  {hash}  "
       for (const ref of commit.refs) {
-        const token = ` ${ref.name} `;
+        const token = ` ${refLabel(ref)} `;
         const idx = text.indexOf(token, searchFrom);
         if (idx >= 0) {
           const range = new vscode.Range(i, idx, i, idx + token.length);
-          if (!refByColor.has(commitColor)) {
-            refByColor.set(commitColor, []);
+          const laneColor = ref.type === "branch" || ref.type === "remote" ? refColor(ref, this.colorRules) : commitColor;
+          const color = themedColor(laneColor, this.theme);
+          if (!refByColor.has(color)) {
+            refByColor.set(color, []);
           }
-          refByColor.get(commitColor)!.push({ range });
+          refByColor.get(color)!.push({ range });
           this.refHits.push({ ref, commitHash: commit.hash, range });
           searchFrom = idx + token.length;
         }
@@ -163,23 +247,23 @@ export class GraphDecorationEngine {
         });
       }
 
-      const authorIdx = text.lastIndexOf(commit.author);
+      const authorIdx = commit.mailmapAuthor ? text.lastIndexOf(commit.mailmapAuthor) : -1;
       if (authorIdx >= 0) {
         authorRanges.push({
-          range: new vscode.Range(i, authorIdx, i, authorIdx + commit.author.length),
+          range: new vscode.Range(i, authorIdx, i, authorIdx + commit.mailmapAuthor.length),
         });
       }
     }
 
     const hashDeco = vscode.window.createTextEditorDecorationType({
-      color: "#F5A623",
+      color: new vscode.ThemeColor("boomergit.hashForeground"),
       fontWeight: "bold",
     });
     const authorDeco = vscode.window.createTextEditorDecorationType({
-      color: "#90A4AE",
+      color: new vscode.ThemeColor("boomergit.authorForeground"),
     });
     const dateDeco = vscode.window.createTextEditorDecorationType({
-      color: "#616161",
+      color: new vscode.ThemeColor("boomergit.dateForeground"),
     });
 
     editor.setDecorations(hashDeco, hashRanges);
@@ -275,21 +359,26 @@ export class GraphDecorationEngine {
       .filter((c): c is Commit => !!c);
   }
 
+  /** Swap [1] and [2] of a two-row selection */
+  swapSelection(editor: vscode.TextEditor): void {
+    this.selectedRows.reverse();
+    this.applySelectionDecos(editor);
+  }
+
   private applySelectionDecos(editor: vscode.TextEditor): void {
     for (const d of this.selectionDecos) d.dispose();
     this.selectionDecos = [];
 
     for (let i = 0; i < this.selectedRows.length; i++) {
       const line = this.selectedRows[i];
-      const isOnActiveLine = line === this.activeLine;
       const deco = vscode.window.createTextEditorDecorationType({
-        backgroundColor: isOnActiveLine ? "#cc3333" : "#cc3333",
+        backgroundColor: new vscode.ThemeColor("boomergit.selectedRowBackground"),
         isWholeLine: true,
-        overviewRulerColor: "#5a9bf6",
+        overviewRulerColor: new vscode.ThemeColor("boomergit.selectedRowOverviewRuler"),
         overviewRulerLane: vscode.OverviewRulerLane.Center,
         after: {
           contentText: ` [${i + 1}]`,
-          color: "#ffffff",
+          color: new vscode.ThemeColor("boomergit.selectedRowForeground"),
           fontWeight: "bold",
         },
       });
@@ -304,6 +393,38 @@ export class GraphDecorationEngine {
     this.selectionDecos = [];
   }
 
+  // --- Search matches ---
+  private matches: Set<string> | undefined;
+  private matchDeco: vscode.TextEditorDecorationType | undefined;
+
+  /**
+   * Mark the rows whose commit is in `matches`; undefined removes the marks.
+   * Without an editor the marks are drawn on the next apply().
+   */
+  setMatches(matches: Set<string> | undefined, editor?: vscode.TextEditor): void {
+    this.matches = matches;
+    if (editor) this.applyMatchDecos(editor);
+  }
+
+  private applyMatchDecos(editor: vscode.TextEditor): void {
+    if (!this.matches) {
+      this.matchDeco?.dispose();
+      this.matchDeco = undefined;
+      return;
+    }
+    this.matchDeco ??= vscode.window.createTextEditorDecorationType({
+      backgroundColor: new vscode.ThemeColor("boomergit.searchMatchBackground"),
+      isWholeLine: true,
+      overviewRulerColor: new vscode.ThemeColor("boomergit.searchMatchOverviewRuler"),
+      overviewRulerLane: vscode.OverviewRulerLane.Right,
+    });
+    const ranges: vscode.Range[] = [];
+    for (let i = 0; i < this.commits.length; i++) {
+      if (this.matches.has(this.commits[i].hash)) ranges.push(new vscode.Range(i, 0, i, 0));
+    }
+    editor.setDecorations(this.matchDeco, ranges);
+  }
+
   /** Returns the total number of rows (commits) in the graph */
   getTotalRows(): number {
     return this.commits.length;
@@ -320,6 +441,8 @@ export class GraphDecorationEngine {
       dt.dispose();
     }
     this.decorationTypes = [];
+    for (const dt of this.tileDecos) dt.dispose();
+    this.tileDecos = [];
     this.refHits = [];
   }
 
@@ -333,6 +456,8 @@ export class GraphDecorationEngine {
     for (const d of this.selectionDecos) d.dispose();
     this.selectionDecos = [];
     this.selectedRows = [];
+    this.matchDeco?.dispose();
+    this.matchDeco = undefined;
     this.svgCache.clear();
   }
 }
@@ -1,17 +1,168 @@
 import * as vscode from "vscode";
 import { execFile } from "node:child_process";
-import { parseGitLog } from "./git/parser.js";
-import { computeGraphLayout } from "./graph/layout.js";
+import * as path from "node:path";
+import * as os from "node:os";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import {
+  insertStashes, listRefs, listRemotes, loadCommits, loadFileHistory, loadReflog, loadRefTips, loadStashes, loadTracking,
+  parseGitLog, PAGE_SIZE, resolveShownCommits,
+  type FileHistoryEntry,
+} from "./git/parser.js";
+import {
+  loadLinks, rewriteParents, searchCommits, type CommitLink, type CommitSearch, type SearchMode, type SearchResult,
+} from "./git/search.js";
+import { buildRevisionArgs, describeFilter, isFilterActive, NO_FILTER, type RefFilter } from "./git/filter.js";
+import { runGit } from "./git/exec.js";
+import { buildRemoteRenameArgs, buildRenameArgs, buildSetUpstreamArgs, checkRefName } from "./git/branch.js";
+import {
+  buildFetchArgs, buildPullArgs, buildPushArgs, loadUpstream, runRemoteGit, type PullMode, type PushOptions,
+} from "./git/remote.js";
+import {
+  abortArgs, buildMergeArgs, buildPickArgs, buildResetArgs, continueArgs, getOperationState, loadPickRange, operationLabel,
+  skipArgs, undoResetArgs, type MergeMode, type OperationState, type PickKind, type PickOptions, type ResetMode,
+} from "./git/operation.js";
+import { buildGitTodo, formatTodo, loadRebaseCommits, parseTodo, shellQuote, type TodoEntry } from "./git/rebase.js";
+import { loadReflogEntries, planUndo, undoReflogRef, type UndoPlan, type UndoRecord } from "./git/undo.js";
+import { computeGraphLayout, createLayoutState, type LayoutState } from "./graph/layout.js";
+import { parseBranchColors } from "./graph/colors.js";
 import { GitGraphProvider } from "./providers/gitGraphProvider.js";
-import type { Commit } from "./git/types.js";
+import { isCurrentCommit, type ChangedFile, type Commit, type Ref, type Tracking } from "./git/types.js";
+import type { GraphRow } from "./graph/types.js";
 import { GraphDecorationEngine } from "./decorations/graphDecorations.js";
 import { CommitInfoProvider, ChangedFilesProvider } from "./providers/commitDetailProvider.js";
-import type { ChangedFile } from "./providers/commitDetailProvider.js";
-import { GitFileContentProvider, FILE_SCHEME, fileUri } from "./providers/gitFileContentProvider.js";
+import { GitFileContentProvider, FILE_SCHEME, INDEX_REF, WORKTREE_REF, fileUri } from "./providers/gitFileContentProvider.js";
+import { RebaseTodoProvider, REBASE_SCHEME, type PendingRebase } from "./providers/rebaseTodoProvider.js";
+import { createUncommittedCommit, filesLostByHardReset, getWorkingTreeStatus } from "./git/status.js";
 
 const SCHEME = "boomergit";
 const DISPLAY_NAME = "BoomerGit";
-const TITLE = `${DISPLAY_NAME} - Git Graph`;
+// Load the next page once the viewport is within this many lines of the end
+const LOAD_MORE_THRESHOLD = 200;
+
+/** A commit search shown in a graph */
+interface ActiveSearch {
+  search: CommitSearch;
+  result: SearchResult;
+  // The revisions and ref positions `result` was searched at (see historyKey)
+  historyKey: string;
+  // Collapse the graph to the matching commits
+  onlyMatches: boolean;
+}
+
+const SEARCH_MODES: Array<vscode.QuickPickItem & { mode: SearchMode; prompt: string }> = [
+  { label: "$(comment) Message", description: "Subject or body text", mode: "message", prompt: "Text in the commit message" },
+  { label: "$(person) Author", description: "Author name or email", mode: "author", prompt: "Author name or email" },
+  { label: "$(git-commit) Hash", description: "Commit hash prefix", mode: "hash", prompt: "Start of the commit hash" },
+  { label: "$(diff) Code Change", description: "Commits adding or removing a string (git log -S)", mode: "pickaxe", prompt: "String added or removed by the commit" },
+  { label: "$(regex) Code Change (Regex)", description: "Commits whose diff has a matching line (git log -G)", mode: "diffRegex", prompt: "Regular expression matched against changed lines" },
+];
+
+const MERGE_MODES: Array<vscode.QuickPickItem & { mode: MergeMode }> = [
+  { label: "$(git-merge) Merge", description: "Fast-forward when possible, otherwise create a merge commit", mode: "default" },
+  { label: "$(arrow-right) Fast-Forward Only", description: "Fail unless the branch can simply move ahead (--ff-only)", mode: "ffOnly" },
+  { label: "$(git-merge) Create Merge Commit", description: "Even when a fast-forward is possible (--no-ff)", mode: "noFf" },
+  { label: "$(fold) Squash", description: "Commit all the changes as one new commit (--squash)", mode: "squash" },
+];
+
+const PICK_OPTIONS: Array<vscode.QuickPickItem & { option: keyof PickOptions }> = [
+  { label: "$(note) Record Origin (-x)", description: "Add \"(cherry picked from commit …)\" to the message", option: "recordOrigin" },
+  { label: "$(circle-slash) Don't Commit (--no-commit)", description: "Leave the changes staged in the working tree", option: "noCommit" },
+];
+
+const RESET_MODES: Array<vscode.QuickPickItem & { mode: ResetMode }> = [
+  { label: "$(archive) Soft", description: "Keep all changes, staged (--soft)", mode: "soft" },
+  { label: "$(edit) Mixed", description: "Keep all changes in the working tree, unstaged (--mixed)", mode: "mixed" },
+  { label: "$(trash) Hard", description: "Discard all uncommitted changes (--hard)", mode: "hard" },
+];
+// Longest list of files shown in the hard reset warning
+const MAX_LISTED_FILES = 20;
+const FETCH_MODES: Array<vscode.QuickPickItem & { prune: boolean }> = [
+  { label: "$(cloud-download) Fetch", prune: false },
+  { label: "$(trash) Fetch and Prune", description: "Also delete remote-tracking branches gone from the remote (--prune)", prune: true },
+];
+
+const PULL_MODES: Array<vscode.QuickPickItem & { mode: PullMode }> = [
+  { label: "$(git-merge) Merge", description: "Merge the remote branch into the current one", mode: "merge" },
+  { label: "$(repo-forked) Rebase", description: "Replay local commits on top of the remote branch (--rebase)", mode: "rebase" },
+];
+
+const PUSH_OPTIONS: Array<vscode.QuickPickItem & { option: keyof PushOptions }> = [
+  { label: "$(link) Set Upstream (-u)", description: "Pull from and push to this remote branch from now on", option: "setUpstream" },
+  { label: "$(warning) Force with Lease", description: "Overwrite the remote branch unless it changed since the last fetch", option: "forceWithLease" },
+];
+
+const TAG_KINDS: Array<vscode.QuickPickItem & { annotated: boolean }> = [
+  { label: "$(tag) Lightweight", description: "Just a name for the commit", annotated: false },
+  { label: "$(note) Annotated", description: "With a message, tagger and date (-a)", annotated: true },
+];
+
+/** A graph limited to the commits that touched one file */
+interface FileHistory {
+  // Repository-relative path of the file as it is now
+  path: string;
+  // By hash: the commit with its real parents, and the file's change in it
+  entries: Map<string, FileHistoryEntry>;
+}
+
+/** One repository's graph tab: its document, decorations and loaded history. */
+interface GraphSession {
+  cwd: string;
+  uri: vscode.Uri;
+  // Per-repository tile directory — an engine clears its tiles on dispose
+  storageDir: string;
+  filter: RefFilter;
+  // `git log` starting points resolved from the filter at the last refresh;
+  // later pages reuse them so they continue the same history
+  revisions: string[];
+  // Upstream status of the local branches, read at the last refresh
+  tracking?: Map<string, Tracking>;
+  search?: ActiveSearch;
+  fileHistory?: FileHistory;
+  // Showing the reflog of this ref ("HEAD" or a branch) instead of the history
+  reflog?: string;
+  // The last operation run from this graph, for Undo Last Operation
+  undo?: UndoRecord;
+  decorationEngine?: GraphDecorationEngine;
+  // "HEAD" when HEAD is detached
+  currentBranch?: string;
+  headHash?: string;
+  // A merge, rebase, cherry-pick or revert stopped part-way, as of the last refresh
+  operation?: OperationState;
+  // Todo list and reword messages of an interactive rebase started here,
+  // removed once no rebase is in progress
+  rebaseTempDir?: string;
+  rows?: GraphRow[];
+  commits?: Commit[];
+  // Paging: lane state carried into the next page, and whether git has more
+  layoutState?: LayoutState;
+  hasMoreCommits: boolean;
+  loadingMore: boolean;
+  // Real commits read from git so far — the next page's skip offset. Differs
+  // from commits.length because of inserted rows (uncommitted, stashes).
+  logCount: number;
+  // Stashes whose base commit hasn't been loaded yet
+  pendingStashes: Commit[];
+  // Guard against overlapping refreshes of this graph
+  refreshing: boolean;
+  lastRefSig?: string;
+  gitStateSub?: vscode.Disposable;
+}
+
+/**
+ * The graph document for a repository, or for one file's history in it. The
+ * path is the tab title; the query keeps two repositories with the same
+ * folder name apart.
+ */
+function graphUri(cwd: string, filePath?: string): vscode.Uri {
+  const title = filePath ? `History of ${path.posix.basename(filePath)}` : path.basename(cwd);
+  return vscode.Uri.from({ scheme: SCHEME, path: `${DISPLAY_NAME} - ${title}`, query: cwd, fragment: filePath ?? "" });
+}
+
+/** workspaceState key under which a repository's graph filter is remembered */
+function filterKey(cwd: string): string {
+  return `boomergit.filter:${cwd}`;
+}
 
 export function activate(context: vscode.ExtensionContext) {
   const graphProvider = new GitGraphProvider();
@@ -26,11 +177,13 @@ export function activate(context: vscode.ExtensionContext) {
   const merged = { ...colors, ...hoverColors };
   wbConfig.update("colorCustomizations", merged, vscode.ConfigurationTarget.Global);
 
-  // True when a graph editor tab exists anywhere (visible or background).
-  function isGraphEditorOpen(): boolean {
+  // True when a graph editor tab exists anywhere (visible or background) —
+  // for the given repository's graph, or for any repository.
+  function isGraphEditorOpen(uri?: vscode.Uri): boolean {
     return vscode.window.tabGroups.all.some((g) =>
       g.tabs.some((t) =>
-        t.input instanceof vscode.TabInputText && t.input.uri.scheme === SCHEME)
+        t.input instanceof vscode.TabInputText && t.input.uri.scheme === SCHEME
+        && (!uri || t.input.uri.toString() === uri.toString()))
     );
   }
 
@@ -42,7 +195,7 @@ export function activate(context: vscode.ExtensionContext) {
     if (!visible || reopening || isGraphEditorOpen()) return;
     reopening = true;
     try {
-      await vscode.commands.executeCommand("boomergit.showGraph");
+      await vscode.commands.executeCommand("boomergit.showGraph", lastCwd);
     } finally {
       reopening = false;
     }
@@ -67,6 +220,9 @@ export function activate(context: vscode.ExtensionContext) {
     new GitFileContentProvider()
   );
 
+  const rebaseTodoProvider = new RebaseTodoProvider();
+  const rebaseTodoReg = vscode.workspace.registerFileSystemProvider(REBASE_SCHEME, rebaseTodoProvider, { isCaseSensitive: true });
+
   // Sidebar icon: auto-open graph when the view becomes visible
   const emptyTreeProvider: vscode.TreeDataProvider<never> = {
     getTreeItem: () => { throw new Error("no items"); },
@@ -82,30 +238,100 @@ export function activate(context: vscode.ExtensionContext) {
   // reopen the graph after the editor tab was closed.
   changedFilesView.onDidChangeVisibility((e) => maybeReopenGraph(e.visible));
 
-  let decorationEngine: GraphDecorationEngine | undefined;
-  let workspaceCwd: string | undefined;
-  let currentBranch: string | undefined;
-  let lastRows: import("./graph/types.js").GraphRow[] | undefined;
-  let lastCommits: Commit[] | undefined;
+  // Open graphs keyed by document URI, one per repository
+  const sessions = new Map<string, GraphSession>();
+  // The graph the user last focused — commands run from outside a graph
+  // editor (sidebar, palette) act on it
+  let lastSession: GraphSession | undefined;
+  // The graph whose commit the sidebar views are showing
+  let sidebarSession: GraphSession | undefined;
+  // Repository of the last graph shown, reopened from the sidebar icon
+  let lastCwd: string | undefined;
   // Left-click → toggle hover menu; Cmd-click → select rows for compare
   let lastHoverKey: string | undefined;
   let hoverTriggeredByClick = false;
   // Timestamp-based ignore: avoids boolean flag races where a real click gets eaten
   let ignoreSelectionUntil = 0;
 
-  // Refresh state: guard against overlapping refreshes; auto-refresh is opt-in.
-  let refreshing = false;
+  // Auto-refresh is opt-in.
   let autoRefreshTimer: ReturnType<typeof setInterval> | undefined;
-  let lastRefSig: string | undefined;
   let autoRefreshEnabled = vscode.workspace.getConfiguration("boomergit").get<boolean>("autoRefresh", false);
 
   const statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
   statusBar.command = "boomergit.toggleAutoRefresh";
+  const filterStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 101);
+  filterStatusBar.command = "boomergit.filterBranches";
+  const searchStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 102);
+  searchStatusBar.command = "boomergit.nextMatch";
+  const headStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 103);
+  headStatusBar.command = "boomergit.createBranchFromHead";
+  const reflogStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 104);
+  reflogStatusBar.command = "boomergit.closeReflog";
   function updateStatusBar(): void {
-    if (!isGraphEditorOpen()) { statusBar.hide(); return; }
+    const graphOpen = isGraphEditorOpen();
+    // The graph that commands act on
+    const session = graphOpen ? activeSession() : undefined;
+    // Shows Continue/Abort while that repository is in the middle of a merge, rebase, cherry-pick or revert
+    void vscode.commands.executeCommand("setContext", "boomergit:operation", session?.operation?.kind ?? "");
+    const detached = session?.currentBranch === "HEAD";
+    void vscode.commands.executeCommand("setContext", "boomergit:detached", detached);
+    if (!graphOpen) {
+      for (const item of [statusBar, filterStatusBar, searchStatusBar, headStatusBar, reflogStatusBar]) item.hide();
+      return;
+    }
     statusBar.text = autoRefreshEnabled ? "$(sync) Auto-refresh: On" : "$(sync-ignored) Auto-refresh: Off";
     statusBar.tooltip = "BoomerGit: toggle auto-refresh (updates the graph when .git changes)";
     statusBar.show();
+    if (session && isFilterActive(session.filter)) {
+      filterStatusBar.text = `$(filter) ${describeFilter(session.filter)}`;
+      filterStatusBar.tooltip = `BoomerGit: ${path.basename(session.cwd)} graph is filtered — click to change`;
+      filterStatusBar.show();
+    } else {
+      filterStatusBar.hide();
+    }
+    if (session?.search) {
+      const { search, result, onlyMatches } = session.search;
+      const count = result.order.length;
+      searchStatusBar.text = `$(search) ${count} ${count === 1 ? "match" : "matches"}${onlyMatches ? " (only)" : ""}`;
+      searchStatusBar.tooltip = `BoomerGit: "${search.query}" — click for the next match`;
+      searchStatusBar.show();
+    } else {
+      searchStatusBar.hide();
+    }
+    if (session && detached) {
+      headStatusBar.text = `$(debug-disconnect) Detached at ${session.headHash?.slice(0, 8) ?? "HEAD"}`;
+      headStatusBar.tooltip = `BoomerGit: HEAD in ${path.basename(session.cwd)} is not on a branch — click to create one here`;
+      headStatusBar.show();
+    } else {
+      headStatusBar.hide();
+    }
+    if (session?.reflog) {
+      reflogStatusBar.text = `$(history) Reflog of ${session.reflog}`;
+      reflogStatusBar.tooltip = `BoomerGit: ${path.basename(session.cwd)} graph shows the reflog — click to go back to the history`;
+      reflogStatusBar.show();
+    } else {
+      reflogStatusBar.hide();
+    }
+  }
+
+  function sessionFor(uri: vscode.Uri): GraphSession | undefined {
+    return uri.scheme === SCHEME ? sessions.get(uri.toString()) : undefined;
+  }
+
+  function activeSession(): GraphSession | undefined {
+    const editor = vscode.window.activeTextEditor;
+    return (editor && sessionFor(editor.document.uri)) ?? lastSession;
+  }
+
+  /** The graph's editor, if it is visible */
+  function graphEditor(session: GraphSession): vscode.TextEditor | undefined {
+    return vscode.window.visibleTextEditors.find((e) => e.document.uri.toString() === session.uri.toString());
+  }
+
+  // Editor-title buttons pass the graph's URI, so the right repository is used
+  // even when several graphs are split side by side
+  function sessionFromArg(arg: unknown): GraphSession | undefined {
+    return arg instanceof vscode.Uri ? sessionFor(arg) : activeSession();
   }
 
   function resetCursor(editor: vscode.TextEditor, pos: vscode.Position, delayMs = 0): void {
@@ -120,15 +346,60 @@ export function activate(context: vscode.ExtensionContext) {
     else doReset();
   }
 
-  function showSidebar(commit: Commit, activeRefName?: string): void {
-    if (!workspaceCwd) return;
-    commitInfoProvider.showCommit(commit, workspaceCwd, activeRefName);
+  function showSidebar(session: GraphSession, shown: Commit, activeRefName?: string): void {
+    const cwd = session.cwd;
+    sidebarSession = session;
+    // A file-history row's parents are rewritten; its changes are against the real parent
+    const entry = session.fileHistory?.entries.get(shown.hash);
+    const commit = entry?.commit ?? shown;
+    commitInfoProvider.showCommit(commit, cwd, activeRefName);
+    if (commit.kind === "uncommitted") {
+      changedFilesProvider.showUncommitted(cwd);
+      return;
+    }
+    if (commit.kind === "stash") {
+      changedFilesProvider.showStash(commit.hash, commit.parents[0], cwd);
+      return;
+    }
     const parentHash = commit.parents[0] || "";
-    changedFilesProvider.showCommit(commit.hash, parentHash, commit.parents.length === 0, workspaceCwd);
+    changedFilesProvider.showCommit(commit.hash, parentHash, commit.parents.length === 0, cwd, entry?.file?.path);
+  }
+
+  /**
+   * With two rows selected, show the diff from [1] to [2] in the sidebar.
+   * Returns false when there is no such pair (the uncommitted row can't be compared).
+   */
+  function showComparison(session: GraphSession): boolean {
+    const selected = session.decorationEngine?.getSelectedCommits() ?? [];
+    if (selected.length !== 2 || selected.some((c) => c.kind === "uncommitted")) return false;
+    const [from, to] = selected;
+    sidebarSession = session;
+    commitInfoProvider.showComparison(from, to, session.cwd);
+    changedFilesProvider.showComparison(from.hash, to.hash, session.cwd);
+    return true;
+  }
+
+  /** Diff a file-history row's file against the commit's parent */
+  function openHistoryDiff(session: GraphSession, commit: Commit): void {
+    const entry = session.fileHistory?.entries.get(commit.hash);
+    // A merge is listed without a change of its own
+    if (!entry?.file) return;
+    const parentHash = entry.commit.parents[0] ?? "";
+    void vscode.commands.executeCommand("boomergit.openFileDiff", entry.file, commit.hash, parentHash, session.cwd);
   }
 
+  // Remember the focused graph so sidebar and palette commands know which
+  // repository they act on
+  const activeEditorWatcher = vscode.window.onDidChangeActiveTextEditor((editor) => {
+    const session = editor && sessionFor(editor.document.uri);
+    if (session) lastSession = session;
+    updateStatusBar();
+  });
+
   const selectionWatcher = vscode.window.onDidChangeTextEditorSelection((e) => {
-    if (e.textEditor.document.uri.scheme !== SCHEME || !decorationEngine) return;
+    const session = sessionFor(e.textEditor.document.uri);
+    const decorationEngine = session?.decorationEngine;
+    if (!session || !decorationEngine) return;
     if (e.kind !== vscode.TextEditorSelectionChangeKind.Mouse) return;
 
     // Ignore events from our own programmatic cursor resets
@@ -155,7 +426,7 @@ export function activate(context: vscode.ExtensionContext) {
     if (refHit && !isCmdClick) {
       // Badge click: clear selections, show badge menu, update sidebar with this ref as title
       decorationEngine.clearSelections(e.textEditor);
-      showSidebar(commit, refHit.ref.name);
+      showSidebar(session, commit, refHit.ref.name);
       const key = `ref:${pos.line}:${refHit.ref.name}`;
       if (lastHoverKey === key) {
         lastHoverKey = undefined;
@@ -168,10 +439,11 @@ export function activate(context: vscode.ExtensionContext) {
         }, 50);
       }
     } else if (isCmdClick) {
-      // Cmd-click: add row to selection, open menu on it
+      // Cmd-click: add row to selection, open menu on it. A second row
+      // compares the two.
       lastHoverKey = undefined;
       decorationEngine.selectRow(e.textEditor, pos.line);
-      showSidebar(commit);
+      if (!showComparison(session)) showSidebar(session, commit);
       showingMenu = true;
       setTimeout(() => {
         hoverTriggeredByClick = true;
@@ -183,11 +455,17 @@ export function activate(context: vscode.ExtensionContext) {
       decorationEngine.clearSelections(e.textEditor);
       commitInfoProvider.clear();
       changedFilesProvider.clear();
+    } else if (session.fileHistory) {
+      // Plain click in a file history → select row and open the file's diff
+      lastHoverKey = undefined;
+      decorationEngine.selectRow(e.textEditor, pos.line);
+      showSidebar(session, commit);
+      openHistoryDiff(session, commit);
     } else {
       // Plain click, nothing selected → select row and open menu
       lastHoverKey = undefined;
       decorationEngine.selectRow(e.textEditor, pos.line);
-      showSidebar(commit);
+      showSidebar(session, commit);
       showingMenu = true;
       setTimeout(() => {
         hoverTriggeredByClick = true;
@@ -207,7 +485,9 @@ export function activate(context: vscode.ExtensionContext) {
     { scheme: SCHEME },
     {
       provideHover(document, position) {
-        if (!decorationEngine) return;
+        const session = sessionFor(document.uri);
+        const decorationEngine = session?.decorationEngine;
+        if (!session || !decorationEngine) return;
 
         // Always apply hover highlight on badges
         const editor = vscode.window.activeTextEditor;
@@ -228,38 +508,116 @@ export function activate(context: vscode.ExtensionContext) {
         md.supportHtml = true;
         md.supportThemeIcons = true;
 
-        const white = (text: string) => `<span style="color:#ffffff;">${text}</span>`;
+        // Hover markdown only takes colours inline, as hex or theme variables
+        const entry = (text: string) => `<span style="color:var(--vscode-boomergit-menuForeground);">${text}</span>`;
+        const item = (icon: string, label: string, command: string, args: unknown[]) =>
+          `[${entry(`$(${icon})&ensp;${label}`)}](command:boomergit.${command}?${encodeURIComponent(JSON.stringify(args))})\n\n`;
+        const stashItems = (selector: string) =>
+          item("check", "Apply Stash", "stashApply", [selector])
+          + item("arrow-up", "Pop Stash", "stashPop", [selector])
+          + item("trash", "Drop Stash", "stashDrop", [selector])
+          + item("git-branch", "Create Branch from Stash", "stashBranch", [selector]);
+        const operationItems = (operation: OperationState) => {
+          const label = operationLabel(operation);
+          return item("check", `Continue ${label}`, "continueOperation", [])
+            + (skipArgs(operation) ? item("debug-step-over", "Skip Commit", "skipOperation", []) : "")
+            + item("discard", `Abort ${label}`, "abortOperation", []);
+        };
+        // Merging or rebasing needs a checked-out branch and nothing in progress
+        const target = session.currentBranch && session.currentBranch !== "HEAD" && !session.operation
+          ? session.currentBranch : undefined;
+        const rebaseItems = (onto: string, label: string) =>
+          item("repo-forked", `Rebase ${target} onto Here`, "rebaseOnto", [onto, label])
+          + item("list-ordered", "Interactive Rebase onto Here…", "rebaseInteractive", [onto, label]);
+        // Cherry-picks land on the checked-out branch, or on a detached HEAD
+        const head = session.currentBranch || "HEAD";
+
+        if (commit.kind === "uncommitted") {
+          // No commit to act on — only the operation it may be in the middle of
+          if (!session.operation) return;
+          md.appendMarkdown(operationItems(session.operation));
+          return new vscode.Hover(md, new vscode.Range(position.line, 0, position.line, 0));
+        }
 
         if (refHit) {
           // Badge menu
           const ref = refHit.ref;
           if (ref.type === "branch" || ref.type === "remote") {
-            const args = encodeURIComponent(JSON.stringify([ref.name, ref.type]));
-            md.appendMarkdown(`[${white("$(git-branch)&ensp;Checkout Branch")}](command:boomergit.checkoutRef?${args})\n\n`);
+            const args = encodeURIComponent(JSON.stringify([ref]));
+            md.appendMarkdown(`[${entry("$(git-branch)&ensp;Checkout Branch")}](command:boomergit.checkoutRef?${args})\n\n`);
           }
           if (ref.type === "branch") {
-            const isCurrent = ref.name === currentBranch;
+            const isCurrent = ref.name === session.currentBranch;
             if (isCurrent) {
-              const grey = (text: string) => `<span style="color:#888888;">${text}</span>`;
-              md.appendMarkdown(`${grey("$(trash)&ensp;Cannot delete current branch")}\n\n`);
+              const disabled = (text: string) => `<span style="color:var(--vscode-boomergit-menuDisabledForeground);">${text}</span>`;
+              md.appendMarkdown(`${disabled("$(trash)&ensp;Cannot delete current branch")}\n\n`);
             } else {
               const delArgs = encodeURIComponent(JSON.stringify([ref.name]));
-              md.appendMarkdown(`[${white("$(trash)&ensp;Delete Branch")}](command:boomergit.deleteBranch?${delArgs})\n\n`);
+              md.appendMarkdown(`[${entry("$(trash)&ensp;Delete Branch")}](command:boomergit.deleteBranch?${delArgs})\n\n`);
             }
+            md.appendMarkdown(item("edit", "Rename Branch…", "renameBranch", [ref.name]));
+            md.appendMarkdown(item("link", "Set Upstream…", "setUpstream", [ref.name]));
+          }
+          if (target && ref.name !== target && (ref.type === "branch" || ref.type === "remote" || ref.type === "tag")) {
+            md.appendMarkdown(item("git-merge", `Merge into ${target}`, "mergeRef", [ref.name]));
+            md.appendMarkdown(rebaseItems(ref.name, ref.name));
+          }
+          if (ref.type === "stash") {
+            md.appendMarkdown(stashItems(ref.name));
+          }
+          if (ref.type === "head" && session.currentBranch === "HEAD" && !session.operation) {
+            md.appendMarkdown(item("git-branch", "Create Branch from Detached HEAD…", "createBranchFromHead", []));
+          }
+          if (ref.type === "tag") {
+            md.appendMarkdown(item("trash", "Delete Tag", "deleteTag", [ref.name]));
+            md.appendMarkdown(item("cloud-upload", "Push Tag to Remote…", "pushTag", [ref.name]));
+            md.appendMarkdown(item("cloud", "Delete Remote Tag…", "deleteRemoteTag", [ref.name]));
           }
           const copyRefArgs = encodeURIComponent(JSON.stringify([ref.name, `Copied: ${ref.name}`]));
-          md.appendMarkdown(`[${white("$(clippy)&ensp;Copy Ref Name")}](command:boomergit.copyText?${copyRefArgs})\n\n`);
+          md.appendMarkdown(`[${entry("$(clippy)&ensp;Copy Ref Name")}](command:boomergit.copyText?${copyRefArgs})\n\n`);
           const copyHashArgs = encodeURIComponent(JSON.stringify([commit.hash, `Copied: ${commit.hash.slice(0, 8)}`]));
-          md.appendMarkdown(`[${white("$(git-commit)&ensp;Copy Commit Hash")}](command:boomergit.copyText?${copyHashArgs})`);
+          md.appendMarkdown(`[${entry("$(git-commit)&ensp;Copy Commit Hash")}](command:boomergit.copyText?${copyHashArgs})`);
           return new vscode.Hover(md, refHit.range);
         } else {
           // Row menu (commit actions)
+          const selected = decorationEngine.getSelectedRows();
+          if (selected.length === 2 && selected.includes(position.line)) {
+            md.appendMarkdown(item("diff", "Compare [1] ↔ [2]", "compareSelected", []));
+            md.appendMarkdown(item("arrow-swap", "Swap Order", "swapCompare", []));
+            const pair = decorationEngine.getSelectedCommits();
+            if (!session.operation && pair.every((c) => !c.kind)) {
+              md.appendMarkdown(item("arrow-right", `Cherry-Pick [1]–[2] onto ${head}…`, "cherryPickRange", []));
+              md.appendMarkdown(item("history", "Revert [1]–[2]…", "revertRange", []));
+            }
+          }
+          const stashRef = commit.kind === "stash" ? commit.refs.find((r) => r.type === "stash") : undefined;
+          if (stashRef) {
+            // A stash row acts on the stash — branching off its WIP commit makes no sense
+            md.appendMarkdown(stashItems(stashRef.name));
+            const copyHashArgs = encodeURIComponent(JSON.stringify([commit.hash, `Copied: ${commit.hash.slice(0, 8)}`]));
+            md.appendMarkdown(`[${entry("$(git-commit)&ensp;Copy Commit Hash")}](command:boomergit.copyText?${copyHashArgs})`);
+            return new vscode.Hover(md, new vscode.Range(position.line, 0, position.line, 0));
+          }
+          const isHead = commit.refs.some((r) => r.type === "head");
+          if (target && !isHead) {
+            md.appendMarkdown(rebaseItems(commit.hash, commit.hash.slice(0, 8)));
+          }
+          if (isHead && session.currentBranch === "HEAD" && !session.operation) {
+            md.appendMarkdown(item("git-branch", "Create Branch from Detached HEAD…", "createBranchFromHead", []));
+          }
+          if (!session.operation) {
+            if (!isHead) md.appendMarkdown(item("debug-disconnect", "Checkout This Commit (Detached)", "checkoutCommit", [commit.hash]));
+            if (!isHead) md.appendMarkdown(item("arrow-right", `Cherry-Pick onto ${head}…`, "cherryPick", [commit.hash]));
+            md.appendMarkdown(item("history", "Revert Commit…", "revertCommit", [commit.hash]));
+            if (!isHead) md.appendMarkdown(item("debug-restart", `Reset ${head} to Here…`, "resetTo", [commit.hash]));
+          }
           const createArgs = encodeURIComponent(JSON.stringify([commit.hash]));
-          md.appendMarkdown(`[${white("$(git-branch)&ensp;Create Branch Here")}](command:boomergit.createBranch?${createArgs})\n\n`);
+          md.appendMarkdown(`[${entry("$(git-branch)&ensp;Create Branch Here")}](command:boomergit.createBranch?${createArgs})\n\n`);
+          md.appendMarkdown(item("tag", "Create Tag Here…", "createTag", [commit.hash]));
           const copyHashArgs = encodeURIComponent(JSON.stringify([commit.hash, `Copied: ${commit.hash.slice(0, 8)}`]));
-          md.appendMarkdown(`[${white("$(git-commit)&ensp;Copy Commit Hash")}](command:boomergit.copyText?${copyHashArgs})\n\n`);
+          md.appendMarkdown(`[${entry("$(git-commit)&ensp;Copy Commit Hash")}](command:boomergit.copyText?${copyHashArgs})\n\n`);
           const copyMsgArgs = encodeURIComponent(JSON.stringify([commit.subject, "Copied commit message"]));
-          md.appendMarkdown(`[${white("$(note)&ensp;Copy Commit Message")}](command:boomergit.copyText?${copyMsgArgs})`);
+          md.appendMarkdown(`[${entry("$(note)&ensp;Copy Commit Message")}](command:boomergit.copyText?${copyMsgArgs})`);
           const range = new vscode.Range(position.line, 0, position.line, 0);
           return new vscode.Hover(md, range);
         }
@@ -269,84 +627,203 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Re-apply decorations when VS Code recreates the graph editor instance (e.g. layout split)
   const visibleEditorsWatcher = vscode.window.onDidChangeVisibleTextEditors((editors) => {
-    if (!decorationEngine || !lastRows || !lastCommits) return;
-    const graphEditor = editors.find((e) => e.document.uri.scheme === SCHEME);
-    if (graphEditor) {
-      decorationEngine.apply(graphEditor, lastRows, lastCommits, currentBranch);
+    for (const editor of editors) {
+      const session = sessionFor(editor.document.uri);
+      if (!session?.decorationEngine || !session.rows || !session.commits) continue;
+      session.decorationEngine.apply(editor, session.rows, session.commits, session.currentBranch);
     }
   });
 
-  // When the graph editor tab is closed, tear down the live state so the sidebar
-  // reflects "no graph" and a later reopen rebuilds cleanly.
+  // When a graph editor tab is closed, tear down that repository's live state
+  // so the sidebar reflects "no graph" and a later reopen rebuilds cleanly.
   const tabCloseWatcher = vscode.window.tabGroups.onDidChangeTabs(() => {
-    if (!decorationEngine || isGraphEditorOpen()) return;
-    decorationEngine.dispose();
-    decorationEngine = undefined;
-    lastRows = undefined;
-    lastCommits = undefined;
-    lastHoverKey = undefined;
-    commitInfoProvider.clear();
-    changedFilesProvider.clear();
+    for (const session of [...sessions.values()]) {
+      if (!session.decorationEngine || isGraphEditorOpen(session.uri)) continue;
+      closeSession(session);
+    }
     updateStatusBar();
   });
 
+  function openSession(cwd: string, filePath?: string): GraphSession {
+    const uri = graphUri(cwd, filePath);
+    const existing = sessions.get(uri.toString());
+    if (existing) return existing;
+    const repoKey = createHash("sha1").update(cwd).digest("hex").slice(0, 12);
+    const session: GraphSession = {
+      cwd,
+      uri,
+      storageDir: path.join(storageDir, "repos", repoKey),
+      filter: { ...NO_FILTER, ...context.workspaceState.get<RefFilter>(filterKey(cwd)) },
+      revisions: buildRevisionArgs(NO_FILTER, []),
+      fileHistory: filePath ? { path: filePath, entries: new Map() } : undefined,
+      hasMoreCommits: false,
+      loadingMore: false,
+      logCount: 0,
+      pendingStashes: [],
+      refreshing: false,
+    };
+    sessions.set(uri.toString(), session);
+    hookSession(session);
+    return session;
+  }
+
+  function closeSession(session: GraphSession): void {
+    session.decorationEngine?.dispose();
+    session.gitStateSub?.dispose();
+    graphProvider.forget(session.uri);
+    sessions.delete(session.uri.toString());
+    if (lastSession === session) lastSession = undefined;
+    if (sidebarSession === session) {
+      sidebarSession = undefined;
+      lastHoverKey = undefined;
+      commitInfoProvider.clear();
+      changedFilesProvider.clear();
+    }
+  }
+
+  /** Push new content to the graph document and wait for VS Code to pick it up */
+  async function updateGraphDocument(uri: vscode.Uri): Promise<void> {
+    graphProvider.refresh(uri);
+    await new Promise<void>((resolve) => {
+      const sub = vscode.workspace.onDidChangeTextDocument((e) => {
+        if (e.document.uri.toString() === uri.toString()) {
+          sub.dispose();
+          resolve();
+        }
+      });
+      // Fallback in case the content didn't actually change
+      setTimeout(() => { sub.dispose(); resolve(); }, 200);
+    });
+  }
+
   /**
-   * Re-read git log and refresh the graph view.
+   * Re-read git log and refresh a repository's graph view.
    * With `preserveView`, keep the user's selected commit and scroll position
    * (used by the manual refresh button and auto-refresh); otherwise focus the
    * editor and auto-select the current branch (initial open / after git ops).
    */
-  async function refreshGraph(opts: { preserveView?: boolean } = {}) {
-    if (!workspaceCwd || refreshing) return;
-    refreshing = true;
+  async function refreshGraph(session: GraphSession, opts: { preserveView?: boolean } = {}) {
+    if (session.refreshing) return;
+    session.refreshing = true;
+    const { cwd, uri } = session;
     try {
       // Snapshot view state to restore after a preserve-view refresh.
       let prevSelectedHashes: string[] = [];
       let prevTopLine: number | undefined;
       if (opts.preserveView) {
-        const sel = decorationEngine?.getSelectedRows() ?? [];
-        if (lastCommits) {
+        const sel = session.decorationEngine?.getSelectedRows() ?? [];
+        const shown = session.commits;
+        if (shown) {
           prevSelectedHashes = sel
-            .map((l) => lastCommits![l]?.hash)
+            .map((l) => shown[l]?.hash)
             .filter((h): h is string => !!h);
         }
-        const ge = vscode.window.visibleTextEditors.find((e) => e.document.uri.scheme === SCHEME);
+        const ge = vscode.window.visibleTextEditors.find((e) => e.document.uri.toString() === uri.toString());
         prevTopLine = ge?.visibleRanges[0]?.start.line;
       }
 
-      currentBranch = await new Promise<string>((resolve) => {
-        execFile("git", ["rev-parse", "--abbrev-ref", "HEAD"], { cwd: workspaceCwd },
+      const currentBranch = await new Promise<string>((resolve) => {
+        execFile("git", ["rev-parse", "--abbrev-ref", "HEAD"], { cwd },
           (err, stdout) => resolve(err ? "" : stdout.trim()));
       });
+      session.currentBranch = currentBranch;
+
+      // A preserve-view refresh reloads as many commits as are already shown,
+      // so the selection and scroll position still exist afterwards.
+      const maxCount = opts.preserveView ? Math.max(PAGE_SIZE, session.logCount) : PAGE_SIZE;
+      // Upstream status is read once here and reused by the later pages
+      const [revisions, tracking] = await Promise.all([resolveRevisions(session), loadTracking(cwd)]);
+      session.tracking = tracking;
+      // Re-run an active search so its matches follow the refreshed history —
+      // only when the history changed, since it reads the whole of it
+      if (session.search) {
+        const key = await historyKey(cwd, revisions);
+        if (key !== session.search.historyKey) {
+          session.search.result = await searchCommits(cwd, revisions, session.search.search);
+          session.search.historyKey = key;
+        }
+      }
+      const history = session.fileHistory;
+      const reflog = !history ? session.reflog : undefined;
+      const onlyMatches = !history && !reflog && session.search?.onlyMatches ? session.search.result : undefined;
+      const config = vscode.workspace.getConfiguration("boomergit");
+      // HEAD's lane comes first, then the pinned branches', in order
+      const pinnedRefs = ["HEAD", ...config.get<string[]>("pinnedBranches", [])];
+      const [logCommits, headHash, status, stashes, operation, pinnedTips, refTips] = await Promise.all([
+        history ? loadFileHistoryCommits(cwd, history, revisions, tracking)
+          : reflog ? loadReflog(cwd, reflog)
+          : onlyMatches ? loadCommits(cwd, onlyMatches.order, tracking)
+          : parseGitLog(cwd, { maxCount }, revisions, tracking),
+        new Promise<string>((resolve) => {
+          execFile("git", ["rev-parse", "--verify", "-q", "HEAD"], { cwd },
+            (err, stdout) => resolve(err ? "" : stdout.trim()));
+        }),
+        getWorkingTreeStatus(cwd),
+        loadStashes(cwd),
+        getOperationState(cwd),
+        // Only the history has branches running down it to pin
+        history || reflog || onlyMatches ? [] : resolveShownCommits(cwd, pinnedRefs, revisions),
+        // Only the paged history has lanes heading for commits not loaded yet
+        history || reflog || onlyMatches ? new Map<string, Ref[]>() : loadRefTips(cwd),
+      ]);
+      if (logCommits.length === 0) return;
+      session.operation = operation;
+      session.headHash = headHash;
+      // Continued, skipped or aborted to the end, here or outside the graph
+      if (session.rebaseTempDir && operation?.kind !== "rebase") await removeRebaseTempDir(session);
+
+      let commits: Commit[];
+      let pendingStashes: Commit[] = [];
+      if (history) {
+        // Already joined up across the commits that didn't touch the file
+        commits = logCommits;
+      } else if (reflog) {
+        // One line through the positions the ref has had, newest first
+        commits = logCommits;
+      } else if (onlyMatches) {
+        // Just the matches, each joined to its nearest matching ancestors.
+        // The whole result is loaded at once, so there are no further pages.
+        commits = rewriteParents(logCommits, onlyMatches.matches, onlyMatches.links);
+      } else {
+        // Stash entries sit directly above their base commit
+        const stashed = insertStashes(logCommits, stashes);
+        pendingStashes = stashed.pending;
+
+        // A dirty working tree or index gets a synthetic row above everything,
+        // linked to HEAD's commit by a dashed lane — unless a filter left HEAD
+        // out of the graph, when the lane would have nothing to join.
+        const isDirty = status.staged.length > 0 || status.unstaged.length > 0;
+        const showsHead = !isFilterActive(session.filter) || logCommits.some((c) => c.hash === headHash);
+        commits = isDirty && headHash && showsHead
+          ? [createUncommittedCommit(headHash, status), ...stashed.commits]
+          : stashed.commits;
+      }
 
-      const commits = await parseGitLog(workspaceCwd);
-      if (commits.length === 0) return;
-
-      const rows = computeGraphLayout(commits);
-
-      const uri = vscode.Uri.parse(`${SCHEME}:${TITLE}`);
-      graphProvider.setCommits(commits);
-      graphProvider.refresh(uri);
+      const state = createLayoutState(
+        parseBranchColors(config.get<Record<string, unknown>>("branchColors", {})),
+        pinnedTips,
+        refTips
+      );
+      const rows = computeGraphLayout(commits, state);
 
+      graphProvider.setCommits(uri, commits);
       // Wait for VS Code to pick up the new content before applying decorations
-      await new Promise<void>((resolve) => {
-        const sub = vscode.workspace.onDidChangeTextDocument((e) => {
-          if (e.document.uri.toString() === uri.toString()) {
-            sub.dispose();
-            resolve();
-          }
-        });
-        // Fallback in case the content didn't actually change
-        setTimeout(() => { sub.dispose(); resolve(); }, 200);
-      });
+      await updateGraphDocument(uri);
 
       const doc = await vscode.workspace.openTextDocument(uri);
       await vscode.languages.setTextDocumentLanguage(doc, "boomergit");
 
-      lastRows = rows;
-      lastCommits = commits;
-      decorationEngine?.dispose();
-      decorationEngine = new GraphDecorationEngine(storageDir);
+      session.rows = rows;
+      session.commits = commits;
+      session.layoutState = state;
+      session.revisions = revisions;
+      session.logCount = logCommits.length;
+      session.pendingStashes = pendingStashes;
+      session.hasMoreCommits = !history && !reflog && !onlyMatches && logCommits.length >= maxCount;
+      session.decorationEngine?.dispose();
+      const decorationEngine = new GraphDecorationEngine(session.storageDir);
+      session.decorationEngine = decorationEngine;
+      decorationEngine.setMatches(matchMarks(session));
 
       // Get the graph editor WITHOUT stealing focus or pulling its tab to the
       // front. Only the initial open actively shows it. A refresh just
@@ -365,6 +842,8 @@ export function activate(context: vscode.ExtensionContext) {
           viewColumn: vscode.ViewColumn.One,
         });
         vscode.commands.executeCommand("setContext", "boomergit:graphOpen", true);
+        lastSession = session;
+        lastCwd = cwd;
       }
 
       if (editor) {
@@ -381,17 +860,15 @@ export function activate(context: vscode.ExtensionContext) {
           }
           const sel = decorationEngine.getSelectedRows();
           if (sel.length) {
-            showSidebar(commits[sel[0]]);
+            showSidebar(session, commits[sel[0]]);
             restored = true;
           }
         }
         if (!restored && currentBranch) {
-          const idx = commits.findIndex((c) =>
-            c.refs.some((r) => r.type === "branch" && r.name === currentBranch)
-          );
+          const idx = commits.findIndex((c) => isCurrentCommit(c, currentBranch));
           if (idx >= 0) {
             decorationEngine.selectRow(editor, idx);
-            showSidebar(commits[idx], currentBranch);
+            showSidebar(session, commits[idx], currentBranch === "HEAD" ? undefined : currentBranch);
           }
         }
 
@@ -407,31 +884,115 @@ export function activate(context: vscode.ExtensionContext) {
       // the `refreshing` guard — otherwise a git event firing in that gap could
       // compare against the stale pre-refresh signature and fire a redundant
       // refresh.
-      const sig = await getRefSignature();
-      if (sig) lastRefSig = sig;
+      const sig = await getRefSignature(cwd);
+      if (sig) session.lastRefSig = sig;
     } catch { /* silently fail on refresh */ }
-    finally { refreshing = false; }
+    finally { session.refreshing = false; }
+  }
+
+  /**
+   * The commits of a file's history, each joined to the nearest earlier
+   * commit that touched the file. The whole history loads at once.
+   */
+  async function loadFileHistoryCommits(
+    cwd: string,
+    history: FileHistory,
+    revisions: string[],
+    tracking: Map<string, Tracking>,
+  ): Promise<Commit[]> {
+    const [entries, links] = await Promise.all([
+      loadFileHistory(cwd, history.path, revisions, tracking),
+      loadLinks(cwd, revisions),
+    ]);
+    history.entries = new Map(entries.map((e) => [e.commit.hash, e]));
+    const commits = entries.map((e) => e.commit);
+    return rewriteParents(commits, new Set(history.entries.keys()), links);
+  }
+
+  /** Hashes to mark as search matches — none when only matches are shown */
+  function matchMarks(session: GraphSession): Set<string> | undefined {
+    return session.search && !session.search.onlyMatches ? session.search.result.matches : undefined;
   }
 
+  /** The `git log` starting points for a graph's filter */
+  async function resolveRevisions(session: GraphSession): Promise<string[]> {
+    const { filter } = session;
+    // Only picked refs and patterns need the repository's ref list
+    const refs = filter.refs.length || filter.globs.length ? await listRefs(session.cwd) : [];
+    return buildRevisionArgs(filter, refs);
+  }
+
+  /**
+   * Read the next page of history and append it below the rows already
+   * shown, continuing the lane layout from where the previous page stopped.
+   */
+  async function loadMoreCommits(session: GraphSession): Promise<void> {
+    if (!session.hasMoreCommits || session.loadingMore || session.refreshing) return;
+    if (!session.commits || !session.rows || !session.layoutState) return;
+    session.loadingMore = true;
+    try {
+      const logCommits = await parseGitLog(session.cwd, { skip: session.logCount }, session.revisions, session.tracking);
+      session.hasMoreCommits = logCommits.length >= PAGE_SIZE;
+      if (logCommits.length === 0) return;
+      session.logCount += logCommits.length;
+      const stashed = insertStashes(logCommits, session.pendingStashes);
+      session.pendingStashes = stashed.pending;
+      const commits = stashed.commits;
+
+      const rows = computeGraphLayout(commits, session.layoutState);
+      session.commits = [...session.commits, ...commits];
+      session.rows = [...session.rows, ...rows];
+
+      const uri = session.uri;
+      graphProvider.appendCommits(uri, commits);
+      await updateGraphDocument(uri);
+
+      const editor = vscode.window.visibleTextEditors.find(
+        (e) => e.document.uri.toString() === uri.toString()
+      );
+      if (editor) session.decorationEngine?.append(editor, rows, commits);
+    } catch { /* leave the graph as it is; the next scroll retries */ }
+    finally { session.loadingMore = false; }
+  }
+
+  // Pull in the next page as the user scrolls toward the bottom of the graph
+  const visibleRangesWatcher = vscode.window.onDidChangeTextEditorVisibleRanges((e) => {
+    const session = sessionFor(e.textEditor.document.uri);
+    if (!session?.hasMoreCommits) return;
+    const lastVisible = e.visibleRanges[e.visibleRanges.length - 1]?.end.line ?? 0;
+    if (lastVisible >= e.textEditor.document.lineCount - LOAD_MORE_THRESHOLD) {
+      void loadMoreCommits(session);
+    }
+  });
+
   const checkoutRefCmd = vscode.commands.registerCommand(
     "boomergit.checkoutRef",
-    async (name: string, type: string) => {
-      if (!workspaceCwd) return;
-      let branchName = name;
-      if (type === "remote") {
-        const slashIdx = branchName.indexOf("/");
-        if (slashIdx >= 0) branchName = branchName.slice(slashIdx + 1);
+    async (ref: Ref) => {
+      const session = activeSession();
+      if (!session) return;
+      // A remote-tracking ref checks out the local branch of the same name,
+      // creating it to track that exact remote when it doesn't exist yet —
+      // plain `git checkout <name>` refuses when several remotes have it.
+      const branchName = ref.shortName;
+      let args = ["checkout", branchName];
+      if (ref.type === "remote") {
+        const hasLocal = await new Promise<boolean>((resolve) => {
+          execFile("git", ["show-ref", "--verify", "--quiet", `refs/heads/${branchName}`], { cwd: session.cwd },
+            (err) => resolve(!err));
+        });
+        if (!hasLocal) args = ["checkout", "--track", "-b", branchName, ref.name];
       }
       try {
         await new Promise<void>((resolve, reject) => {
-          execFile("git", ["checkout", branchName], { cwd: workspaceCwd },
+          execFile("git", args, { cwd: session.cwd },
             (err, _stdout, stderr) => {
               if (err) return reject(new Error(stderr || err.message));
               resolve();
             });
         });
+        session.undo = { kind: "checkout" };
         vscode.window.showInformationMessage(`Checked out: ${branchName}`);
-        await refreshGraph();
+        await refreshGraph(session);
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : String(err);
         vscode.window.showErrorMessage(`Checkout failed: ${msg}`);
@@ -442,7 +1003,8 @@ export function activate(context: vscode.ExtensionContext) {
   const deleteBranchCmd = vscode.commands.registerCommand(
     "boomergit.deleteBranch",
     async (branchName: string) => {
-      if (!workspaceCwd) return;
+      const session = activeSession();
+      if (!session) return;
       const choice = await vscode.window.showWarningMessage(
         `Delete branch "${branchName}"?`,
         { modal: true, detail: "Use 'Force Delete' if the branch is not fully merged." },
@@ -451,15 +1013,18 @@ export function activate(context: vscode.ExtensionContext) {
       if (!choice) return;
       const flag = choice === "Force Delete" ? "-D" : "-d";
       try {
+        // Undo re-creates the branch here
+        const tip = (await runGit(session.cwd, ["rev-parse", `refs/heads/${branchName}`])).trim();
         await new Promise<void>((resolve, reject) => {
-          execFile("git", ["branch", flag, branchName], { cwd: workspaceCwd },
+          execFile("git", ["branch", flag, branchName], { cwd: session.cwd },
             (err, _stdout, stderr) => {
               if (err) return reject(new Error(stderr || err.message));
               resolve();
             });
         });
+        session.undo = { kind: "deleteBranch", branch: branchName, tip };
         vscode.window.showInformationMessage(`Deleted branch: ${branchName}`);
-        await refreshGraph();
+        await refreshGraph(session);
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : String(err);
         vscode.window.showErrorMessage(`Delete failed: ${msg}`);
@@ -470,7 +1035,8 @@ export function activate(context: vscode.ExtensionContext) {
   const createBranchCmd = vscode.commands.registerCommand(
     "boomergit.createBranch",
     async (commitHash: string) => {
-      if (!workspaceCwd) return;
+      const session = activeSession();
+      if (!session) return;
       const name = await vscode.window.showInputBox({
         prompt: "New branch name",
         placeHolder: "feature/my-branch",
@@ -478,14 +1044,14 @@ export function activate(context: vscode.ExtensionContext) {
       if (!name) return;
       try {
         await new Promise<void>((resolve, reject) => {
-          execFile("git", ["branch", name, commitHash], { cwd: workspaceCwd },
+          execFile("git", ["branch", name, commitHash], { cwd: session.cwd },
             (err, _stdout, stderr) => {
               if (err) return reject(new Error(stderr || err.message));
               resolve();
             });
         });
         vscode.window.showInformationMessage(`Created branch: ${name}`);
-        await refreshGraph();
+        await refreshGraph(session);
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : String(err);
         vscode.window.showErrorMessage(`Create branch failed: ${msg}`);
@@ -493,6 +1059,853 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  const checkoutCommitCmd = vscode.commands.registerCommand(
+    "boomergit.checkoutCommit",
+    async (hash: string) => {
+      const session = activeSession();
+      if (!session) return;
+      if (await runGitAction(["checkout", "--detach", hash], `Checked out ${hash.slice(0, 8)} (detached HEAD)`, "Checkout")) {
+        session.undo = { kind: "checkout" };
+      }
+    }
+  );
+
+  const createBranchFromHeadCmd = vscode.commands.registerCommand(
+    "boomergit.createBranchFromHead",
+    async () => {
+      const session = activeSession();
+      if (session?.currentBranch !== "HEAD") return;
+      const { cwd } = session;
+      const name = await vscode.window.showInputBox({
+        prompt: `New branch at the detached HEAD (${session.headHash?.slice(0, 8) ?? "HEAD"}), checked out`,
+        placeHolder: "feature/my-branch",
+        validateInput: (value) => checkRefName(cwd, "refs/heads", value, "branch"),
+      });
+      if (!name) return;
+      if (await runGitAction(["checkout", "-b", name], `Created and checked out branch: ${name}`, "Create branch")) {
+        session.undo = { kind: "checkout" };
+      }
+    }
+  );
+
+  /**
+   * Run a git command from a menu action: report success or git's error, and
+   * refresh the graph once it succeeded.
+   */
+  async function runGitAction(args: string[], success: string, failure: string): Promise<boolean> {
+    const session = activeSession();
+    if (!session) return false;
+    try {
+      await runGit(session.cwd, args);
+      vscode.window.showInformationMessage(success);
+      await refreshGraph(session);
+      return true;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`${failure} failed: ${msg}`);
+      return false;
+    }
+  }
+
+  const stashApplyCmd = vscode.commands.registerCommand(
+    "boomergit.stashApply",
+    (selector: string) => runGitAction(["stash", "apply", selector], `Applied ${selector}`, "Apply stash")
+  );
+
+  const stashPopCmd = vscode.commands.registerCommand(
+    "boomergit.stashPop",
+    (selector: string) => runGitAction(["stash", "pop", selector], `Popped ${selector}`, "Pop stash")
+  );
+
+  const stashDropCmd = vscode.commands.registerCommand(
+    "boomergit.stashDrop",
+    async (selector: string) => {
+      const choice = await vscode.window.showWarningMessage(
+        `Drop ${selector}?`,
+        { modal: true, detail: "The stashed changes will be lost." },
+        "Drop"
+      );
+      if (choice !== "Drop") return;
+      await runGitAction(["stash", "drop", selector], `Dropped ${selector}`, "Drop stash");
+    }
+  );
+
+  const stashBranchCmd = vscode.commands.registerCommand(
+    "boomergit.stashBranch",
+    async (selector: string) => {
+      const name = await vscode.window.showInputBox({
+        prompt: `New branch for ${selector} (checked out at the stash's base, then the stash is popped)`,
+        placeHolder: "feature/my-branch",
+      });
+      if (!name) return;
+      await runGitAction(["stash", "branch", name, selector], `Created branch ${name} from ${selector}`, "Create branch from stash");
+    }
+  );
+
+  /**
+   * Run a merge, rebase, cherry-pick or revert step and refresh the graph.
+   * When git stops part-way (usually for conflicts), select the uncommitted
+   * row so Changed Files lists them, say where it stopped and offer to skip
+   * or abort; any other failure is reported as an error.
+   * `run` resolves with the message to show on success.
+   */
+  async function runOperationStep(session: GraphSession, run: () => Promise<string>, failure: string): Promise<void> {
+    try {
+      vscode.window.showInformationMessage(await run());
+      // Selects the current branch, which is now at the new commit
+      await refreshGraph(session);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const [operation, status] = await Promise.all([getOperationState(session.cwd), getWorkingTreeStatus(session.cwd)]);
+      const conflicts = status.unstaged.filter((f) => f.status === "U").length;
+      if (!operation && !conflicts) {
+        vscode.window.showErrorMessage(`${failure} failed: ${msg}`);
+        return;
+      }
+      await refreshGraph(session);
+      showConflicts(session);
+      // git names the commit it stopped on: "error: could not apply 1a2b3c4... Subject"
+      const stoppedAt = /^error: could not (?:apply|revert) (.+)$/m.exec(msg)?.[1];
+      const at = stoppedAt ? ` at ${stoppedAt}` : "";
+      const files = `${conflicts} conflicted ${conflicts === 1 ? "file" : "files"}`;
+      if (!operation) {
+        // --no-commit leaves its conflicts in the working tree, with nothing to continue
+        vscode.window.showWarningMessage(`${failure} left ${files}${at}. Resolve them; nothing was committed.`);
+        return;
+      }
+      const label = operationLabel(operation).toLowerCase();
+      // Stopped without conflicts, e.g. on a cherry-pick that is now empty
+      const message = conflicts
+        ? `The ${label} stopped with ${files}${at}. Resolve and stage them, then continue the ${label}.`
+        : `The ${label} stopped${at}: ${msg.split("\n")[0]}`;
+      const skip = skipArgs(operation) ? ["Skip Commit"] : [];
+      const choice = await vscode.window.showWarningMessage(message, ...skip, `Abort ${operationLabel(operation)}`);
+      if (choice === "Skip Commit") await vscode.commands.executeCommand("boomergit.skipOperation");
+      // Picking Abort here is the confirmation: no second modal
+      else if (choice) await vscode.commands.executeCommand("boomergit.abortOperation", true);
+    }
+  }
+
+  /** Select the uncommitted-changes row, whose Changed Files list the conflicts */
+  function showConflicts(session: GraphSession): void {
+    const editor = graphEditor(session);
+    const engine = session.decorationEngine;
+    const row = session.commits?.[0];
+    if (!editor || !engine || row?.kind !== "uncommitted") return;
+    engine.clearSelections(editor);
+    engine.selectRow(editor, 0);
+    showSidebar(session, row);
+  }
+
+  // git must never wait for an editor: keep the messages it prepares
+  const NO_EDITOR = { GIT_EDITOR: "true" };
+
+  /** Remember where the checked-out branch is before a merge or rebase moves it, for Undo */
+  async function recordMove(session: GraphSession, kind: "merge" | "rebase"): Promise<void> {
+    const ref = session.currentBranch;
+    // A rebase of a detached HEAD logs no "finish" entry for Undo to check against
+    if (!ref || ref === "HEAD") return;
+    session.undo = { kind, ref, before: (await runGit(session.cwd, ["rev-parse", "HEAD"])).trim() };
+  }
+
+  const mergeRefCmd = vscode.commands.registerCommand(
+    "boomergit.mergeRef",
+    async (refName: string) => {
+      const session = activeSession();
+      if (!session?.currentBranch) return;
+      const target = session.currentBranch;
+      const picked = await vscode.window.showQuickPick(MERGE_MODES, { placeHolder: `Merge ${refName} into ${target}` });
+      if (!picked) return;
+      const { cwd } = session;
+      await runOperationStep(session, async () => {
+        // A squash ends in an ordinary commit, which Undo doesn't reverse
+        if (picked.mode !== "squash") await recordMove(session, "merge");
+        await runGit(cwd, buildMergeArgs(refName, picked.mode), NO_EDITOR);
+        if (picked.mode === "squash") {
+          const squash: OperationState = { kind: "merge", squash: true };
+          // Nothing staged: everything on the branch is already in this one
+          if (!(await runGit(cwd, ["diff", "--cached", "--name-only"])).trim()) {
+            await runGit(cwd, abortArgs(squash));
+            return `Nothing to squash: ${target} already has the changes of ${refName}`;
+          }
+          await runGit(cwd, continueArgs(squash), NO_EDITOR);
+        }
+        return `Merged ${refName} into ${target}`;
+      }, "Merge");
+    }
+  );
+
+  const rebaseOntoCmd = vscode.commands.registerCommand(
+    "boomergit.rebaseOnto",
+    async (onto: string, label: string) => {
+      const session = activeSession();
+      if (!session?.currentBranch) return;
+      const branch = session.currentBranch;
+      const choice = await vscode.window.showWarningMessage(
+        `Rebase ${branch} onto ${label}?`,
+        { modal: true, detail: `The commits on ${branch} that aren't in ${label} are replayed on top of it, rewriting them.` },
+        "Rebase"
+      );
+      if (choice !== "Rebase") return;
+      await runOperationStep(session, async () => {
+        await recordMove(session, "rebase");
+        await runGit(session.cwd, ["rebase", onto], NO_EDITOR);
+        return `Rebased ${branch} onto ${label}`;
+      }, "Rebase");
+    }
+  );
+
+  // Graphs that opened each todo document, refreshed once its rebase ran
+  const todoSessions = new Map<string, GraphSession>();
+
+  const rebaseInteractiveCmd = vscode.commands.registerCommand(
+    "boomergit.rebaseInteractive",
+    async (onto: string, label: string) => {
+      const session = activeSession();
+      if (!session?.currentBranch) return;
+      const branch = session.currentBranch;
+      try {
+        const commits = await loadRebaseCommits(session.cwd, onto);
+        if (commits.length === 0) {
+          vscode.window.showInformationMessage(`Nothing to rebase: ${branch} has no commits that aren't in ${label}`);
+          return;
+        }
+        const uri = rebaseTodoProvider.create(
+          { cwd: session.cwd, onto, commits },
+          formatTodo(commits, `Rebase ${branch} onto ${label} (${commits.length} ${commits.length === 1 ? "commit" : "commits"})`)
+        );
+        todoSessions.set(uri.toString(), session);
+        await vscode.window.showTextDocument(uri, { preview: false });
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Interactive rebase failed: ${msg}`);
+      }
+    }
+  );
+
+  // Saving a todo document runs its rebase; a todo list that can't run stays open to fix
+  const todoSaveWatcher = rebaseTodoProvider.onDidSaveTodo(async ({ uri, rebase, text }) => {
+    let entries: TodoEntry[];
+    try {
+      entries = parseTodo(text, rebase.commits);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Rebase todo list: ${msg}`);
+      return;
+    }
+    const session = todoSessions.get(uri.toString());
+    todoSessions.delete(uri.toString());
+    rebaseTodoProvider.forget(uri);
+    for (const group of vscode.window.tabGroups.all) {
+      const tab = group.tabs.find((t) => t.input instanceof vscode.TabInputText && t.input.uri.toString() === uri.toString());
+      if (tab) await vscode.window.tabGroups.close(tab);
+    }
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage("Rebase cancelled: the todo list is empty");
+      return;
+    }
+    if (!session || !sessions.has(session.uri.toString())) return;
+    await runOperationStep(session, async () => {
+      await recordMove(session, "rebase");
+      return runInteractiveRebase(session, rebase, entries);
+    }, "Rebase");
+  });
+
+  const todoCloseWatcher = vscode.workspace.onDidCloseTextDocument((doc) => {
+    if (doc.uri.scheme !== REBASE_SCHEME) return;
+    todoSessions.delete(doc.uri.toString());
+    rebaseTodoProvider.forget(doc.uri);
+  });
+
+  /**
+   * Run `git rebase -i` with the edited todo list: git's sequence editor just
+   * copies it over the list git generated. The files live in a temporary
+   * directory, kept on the session while the rebase is stopped since reword
+   * steps read their message from it.
+   */
+  async function runInteractiveRebase(session: GraphSession, rebase: PendingRebase, entries: TodoEntry[]): Promise<string> {
+    const { cwd, onto } = rebase;
+    if (session.rebaseTempDir) await removeRebaseTempDir(session);
+    const dir = await mkdtemp(path.join(os.tmpdir(), "boomergit-rebase-"));
+    session.rebaseTempDir = dir;
+    try {
+      const rewordFiles = new Map<string, string>();
+      for (const entry of entries) {
+        if (entry.action !== "reword") continue;
+        // The new subject keeps the original body
+        const body = (await runGit(cwd, ["log", "-1", "--format=%b", entry.hash])).trim();
+        const file = path.join(dir, `${entry.hash}.msg`);
+        await writeFile(file, body ? `${entry.subject}\n\n${body}\n` : `${entry.subject}\n`);
+        rewordFiles.set(entry.hash, file);
+      }
+      const todoFile = path.join(dir, "git-rebase-todo");
+      await writeFile(todoFile, buildGitTodo(entries, rewordFiles));
+      await runGit(cwd, ["rebase", "-i", onto], { ...NO_EDITOR, GIT_SEQUENCE_EDITOR: `cp ${shellQuote(todoFile)}` });
+      return `Rebased ${entries.filter((e) => e.action !== "drop").length} of ${entries.length} commits`;
+    } finally {
+      // A rebase stopped on a conflict or edit still needs the files
+      if ((await getOperationState(cwd))?.kind !== "rebase") await removeRebaseTempDir(session);
+    }
+  }
+
+  /** Delete the files of the interactive rebase started from this graph */
+  async function removeRebaseTempDir(session: GraphSession): Promise<void> {
+    const dir = session.rebaseTempDir;
+    session.rebaseTempDir = undefined;
+    if (dir) await rm(dir, { recursive: true, force: true });
+  }
+
+  /**
+   * Cherry-pick `links` (oldest first) onto HEAD, or revert them newest first,
+   * after asking for the options and, when there are merges among them, which
+   * parent is the mainline.
+   */
+  async function pickCommits(session: GraphSession, kind: PickKind, links: CommitLink[]): Promise<void> {
+    const head = session.currentBranch || "HEAD";
+    const what = links.length === 1 ? links[0].hash.slice(0, 8) : `${links.length} commits`;
+    const picked = await vscode.window.showQuickPick(
+      PICK_OPTIONS.filter((o) => kind === "cherryPick" || o.option !== "recordOrigin"),
+      {
+        canPickMany: true,
+        title: kind === "revert" ? `Revert ${what}` : `Cherry-pick ${what} onto ${head}`,
+        placeHolder: "Options — press Enter for none",
+      }
+    );
+    if (!picked) return;
+    const options: PickOptions = {
+      recordOrigin: picked.some((o) => o.option === "recordOrigin"),
+      noCommit: picked.some((o) => o.option === "noCommit"),
+    };
+    const merges = links.filter((l) => l.parents.length > 1);
+    if (merges.length) {
+      options.mainline = await pickMainline(session.cwd, merges);
+      if (!options.mainline) return;
+    }
+    const hashes = links.map((l) => l.hash);
+    if (kind === "revert") hashes.reverse();
+    await runOperationStep(session, async () => {
+      await runGit(session.cwd, buildPickArgs(kind, hashes, options), NO_EDITOR);
+      if (kind === "revert") {
+        return options.noCommit ? `Reverted ${what} in the working tree, not committed` : `Reverted ${what}`;
+      }
+      return options.noCommit ? `Applied ${what} to the working tree, not committed` : `Cherry-picked ${what} onto ${head}`;
+    }, kind === "revert" ? "Revert" : "Cherry-pick");
+  }
+
+  /**
+   * Ask which parent of a merge commit its changes are taken against. git
+   * takes one mainline for the whole pick, so with several merges the first
+   * one's parents are shown and the choice applies to all of them.
+   */
+  async function pickMainline(cwd: string, merges: CommitLink[]): Promise<number | undefined> {
+    const [merge] = merges;
+    const others = merges.length - 1;
+    const subjects = (await runGit(cwd, ["log", "--no-walk=unsorted", "--format=%s", ...merge.parents])).split("\n");
+    const picked = await vscode.window.showQuickPick(
+      merge.parents.map((parent, i) => ({
+        label: `Parent ${i + 1}`,
+        description: parent.slice(0, 8),
+        detail: subjects[i],
+        mainline: i + 1,
+      })),
+      {
+        title: others
+          ? `${merges.length} merges — which parent is the mainline for all of them?`
+          : `${merge.hash.slice(0, 8)} is a merge — which parent is the mainline?`,
+        placeHolder: others
+          ? `Applies to all ${merges.length} merges; parents of ${merge.hash.slice(0, 8)} shown (usually parent 1, the branch merged into)`
+          : "Its changes are taken relative to this parent (usually parent 1, the branch merged into)",
+      }
+    );
+    return picked?.mainline;
+  }
+
+  /** Cherry-pick or revert the one commit `hash` */
+  async function pickSingle(kind: PickKind, hash: string): Promise<void> {
+    const session = activeSession();
+    if (!session) return;
+    let links: CommitLink[];
+    try {
+      links = await loadLinks(session.cwd, ["--max-count=1", hash]);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`${kind === "revert" ? "Revert" : "Cherry-pick"} failed: ${msg}`);
+      return;
+    }
+    await pickCommits(session, kind, links);
+  }
+
+  const cherryPickCmd = vscode.commands.registerCommand("boomergit.cherryPick", (hash: string) => pickSingle("cherryPick", hash));
+  const revertCommitCmd = vscode.commands.registerCommand("boomergit.revertCommit", (hash: string) => pickSingle("revert", hash));
+
+  /** Cherry-pick or revert everything between the two selected rows, both included */
+  async function pickSelectedRange(kind: PickKind): Promise<void> {
+    const session = activeSession();
+    const selected = session?.decorationEngine?.getSelectedCommits() ?? [];
+    if (!session || selected.length !== 2) return;
+    let links: CommitLink[];
+    try {
+      links = await loadPickRange(session.cwd, selected[0].hash, selected[1].hash);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`${kind === "revert" ? "Revert" : "Cherry-pick"} failed: ${msg}`);
+      return;
+    }
+    await pickCommits(session, kind, links);
+  }
+
+  const cherryPickRangeCmd = vscode.commands.registerCommand("boomergit.cherryPickRange", () => pickSelectedRange("cherryPick"));
+  const revertRangeCmd = vscode.commands.registerCommand("boomergit.revertRange", () => pickSelectedRange("revert"));
+
+  const resetToCmd = vscode.commands.registerCommand(
+    "boomergit.resetTo",
+    async (hash: string) => {
+      const session = activeSession();
+      if (!session) return;
+      const { cwd } = session;
+      const head = session.currentBranch || "HEAD";
+      const short = hash.slice(0, 8);
+      const picked = await vscode.window.showQuickPick(RESET_MODES, { title: `Reset ${head} to ${short}` });
+      if (!picked) return;
+      if (picked.mode === "hard") {
+        const lost = filesLostByHardReset(await getWorkingTreeStatus(cwd));
+        const listed = lost.slice(0, MAX_LISTED_FILES).join("\n")
+          + (lost.length > MAX_LISTED_FILES ? `\n…and ${lost.length - MAX_LISTED_FILES} more` : "");
+        const choice = await vscode.window.showWarningMessage(
+          `Hard reset ${head} to ${short}?`,
+          {
+            modal: true,
+            detail: lost.length
+              ? `The uncommitted changes to these files will be lost:\n\n${listed}`
+              : "There are no uncommitted changes to lose.",
+          },
+          "Reset"
+        );
+        if (choice !== "Reset") return;
+      }
+      let oldHead: string;
+      try {
+        // Remembered for Undo Reset: the commits after the target are otherwise only in the reflog
+        oldHead = (await runGit(cwd, ["rev-parse", "HEAD"])).trim();
+        await runGit(cwd, buildResetArgs(picked.mode, hash));
+        session.undo = { kind: "reset", ref: head, before: oldHead };
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Reset failed: ${msg}`);
+        return;
+      }
+      await refreshGraph(session);
+      const undo = await vscode.window.showInformationMessage(`Reset ${head} to ${short} (${picked.mode})`, "Undo Reset");
+      if (undo !== "Undo Reset") return;
+      if (await runGitAction(undoResetArgs(picked.mode, oldHead), `Moved ${head} back to ${oldHead.slice(0, 8)}`, "Undo reset")) {
+        session.undo = undefined;
+      }
+    }
+  );
+
+  const continueOperationCmd = vscode.commands.registerCommand(
+    "boomergit.continueOperation",
+    async () => {
+      const session = activeSession();
+      const operation = session?.operation;
+      if (!session || !operation) return;
+      const label = operationLabel(operation);
+      await runOperationStep(session, async () => {
+        await runGit(session.cwd, continueArgs(operation), NO_EDITOR);
+        return `${label} completed`;
+      }, `Continue ${label.toLowerCase()}`);
+    }
+  );
+
+  const skipOperationCmd = vscode.commands.registerCommand(
+    "boomergit.skipOperation",
+    async () => {
+      const session = activeSession();
+      const operation = session?.operation;
+      const args = operation && skipArgs(operation);
+      if (!session || !args) return;
+      const label = operationLabel(operation).toLowerCase();
+      await runOperationStep(session, async () => {
+        await runGit(session.cwd, args, NO_EDITOR);
+        // A rebase can stop again without a conflict, e.g. on an `edit` step
+        return await getOperationState(session.cwd)
+          ? `Skipped the commit; the ${label} is still in progress`
+          : `Skipped the commit; ${label} completed`;
+      }, "Skip commit");
+    }
+  );
+
+  const abortOperationCmd = vscode.commands.registerCommand(
+    "boomergit.abortOperation",
+    // `confirmed` is true only when called after the user already chose Abort;
+    // menus pass other arguments (the graph's URI) or none
+    async (confirmed?: unknown) => {
+      const session = activeSession();
+      const operation = session?.operation;
+      if (!session || !operation) return;
+      const label = operationLabel(operation);
+      if (confirmed !== true) {
+        const choice = await vscode.window.showWarningMessage(
+          `Abort the ${label.toLowerCase()}?`,
+          { modal: true, detail: `The branch goes back to where it was before the ${label.toLowerCase()}. Conflict resolutions made so far are lost.` },
+          `Abort ${label}`
+        );
+        if (!choice) return;
+      }
+      // The branch is back where it was: nothing of the operation is left to undo
+      if (await runGitAction(abortArgs(operation), `${label} aborted`, `Abort ${label.toLowerCase()}`)) {
+        session.undo = undefined;
+      }
+    }
+  );
+
+  const undoLastOperationCmd = vscode.commands.registerCommand(
+    "boomergit.undoLastOperation",
+    async () => {
+      const session = activeSession();
+      if (!session) return;
+      const record = session.undo;
+      if (!record) {
+        vscode.window.showInformationMessage("Nothing to undo: no checkout, reset, branch delete, merge or rebase has been run from this graph.");
+        return;
+      }
+      const ref = undoReflogRef(record);
+      let plan: UndoPlan;
+      try {
+        plan = planUndo(record, ref ? await loadReflogEntries(session.cwd, ref) : []);
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Undo failed: ${msg}`);
+        return;
+      }
+      if (await runGitAction(plan.args, plan.description, "Undo")) session.undo = undefined;
+    }
+  );
+
+  const showReflogCmd = vscode.commands.registerCommand(
+    "boomergit.showReflog",
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (!session) return;
+      if (session.fileHistory) {
+        vscode.window.showInformationMessage("The reflog is shown in the repository's graph, not in a file history.");
+        return;
+      }
+      const branches = (await listRefs(session.cwd)).filter((ref) => ref.type === "branch");
+      const items: Array<vscode.QuickPickItem & { ref: string }> = [
+        { label: "$(target) HEAD", description: "Every checkout, commit, reset, merge and rebase", ref: "HEAD" },
+        ...branches.map((branch) => ({ label: `$(git-branch) ${branch.name}`, ref: branch.name })),
+      ];
+      const picked = await vscode.window.showQuickPick(items, { placeHolder: "Show the reflog of" });
+      if (!picked) return;
+      if ((await loadReflogEntries(session.cwd, picked.ref, 1)).length === 0) {
+        vscode.window.showErrorMessage(`${DISPLAY_NAME}: ${picked.ref} has no reflog.`);
+        return;
+      }
+      session.reflog = picked.ref;
+      updateStatusBar();
+      await refreshGraph(session);
+    }
+  );
+
+  const closeReflogCmd = vscode.commands.registerCommand(
+    "boomergit.closeReflog",
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (!session?.reflog) return;
+      session.reflog = undefined;
+      updateStatusBar();
+      await refreshGraph(session);
+    }
+  );
+
+  /** Ask which remote to use, unless there's only one */
+  async function pickRemote(cwd: string, title: string): Promise<string | undefined> {
+    const remotes = await listRemotes(cwd);
+    if (remotes.length === 0) {
+      vscode.window.showErrorMessage("This repository has no remotes");
+      return undefined;
+    }
+    if (remotes.length === 1) return remotes[0];
+    return vscode.window.showQuickPick(remotes, { title });
+  }
+
+  /** Run a git command that talks to a remote, showing git's progress in a notification */
+  async function withRemoteProgress(cwd: string, args: string[], title: string, env?: NodeJS.ProcessEnv): Promise<string> {
+    return vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title },
+      (progress) => runRemoteGit(cwd, args, (p) => progress.report({ message: `${p.phase} ${p.percent}%` }), env)
+    );
+  }
+
+  /**
+   * Run a git command that talks to a remote: report success or git's error,
+   * and refresh the graph to show the updated remote branches and tags.
+   */
+  async function runRemoteAction(session: GraphSession, args: string[], title: string, success: string, failure: string): Promise<void> {
+    try {
+      await withRemoteProgress(session.cwd, args, title);
+      vscode.window.showInformationMessage(success);
+      await refreshGraph(session);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`${failure} failed: ${msg}`);
+    }
+  }
+
+  /** The checked-out branch, or undefined (with an error) when there is none to pull or push */
+  function checkedOutBranch(session: GraphSession, action: string): string | undefined {
+    if (session.currentBranch && session.currentBranch !== "HEAD") return session.currentBranch;
+    vscode.window.showErrorMessage(`${action} needs a checked-out branch`);
+    return undefined;
+  }
+
+  const fetchCmd = vscode.commands.registerCommand(
+    "boomergit.fetch",
+    async () => {
+      const session = activeSession();
+      if (!session) return;
+      const remotes = await listRemotes(session.cwd);
+      if (remotes.length === 0) {
+        vscode.window.showErrorMessage("This repository has no remotes");
+        return;
+      }
+      let remote: string | undefined = remotes[0];
+      if (remotes.length > 1) {
+        const all = "$(cloud-download) All Remotes";
+        const picked = await vscode.window.showQuickPick([all, ...remotes], { title: "Fetch from" });
+        if (!picked) return;
+        remote = picked === all ? undefined : picked;
+      }
+      const mode = await vscode.window.showQuickPick(FETCH_MODES, { title: `Fetch ${remote ?? "all remotes"}` });
+      if (!mode) return;
+      const from = remote ?? "all remotes";
+      await runRemoteAction(session, buildFetchArgs({ remote, prune: mode.prune }),
+        `Fetching ${from}…`, `Fetched ${from}`, "Fetch");
+    }
+  );
+
+  const pullCmd = vscode.commands.registerCommand(
+    "boomergit.pull",
+    async () => {
+      const session = activeSession();
+      if (!session) return;
+      const branch = checkedOutBranch(session, "Pull");
+      if (!branch) return;
+      const { cwd } = session;
+      // Without an upstream, pull the branch of the same name from a chosen remote
+      const upstream = await loadUpstream(cwd, branch);
+      const remote = upstream?.remote ?? await pickRemote(cwd, `Pull ${branch} from`);
+      if (!remote) return;
+      const source = upstream ?? { remote, branch };
+      const from = `${source.remote}/${source.branch}`;
+      const picked = await vscode.window.showQuickPick(PULL_MODES, { title: `Pull ${from} into ${branch}` });
+      if (!picked) return;
+      await runOperationStep(session, async () => {
+        await withRemoteProgress(cwd, buildPullArgs(picked.mode, upstream ? undefined : source), `Pulling ${from}…`, NO_EDITOR);
+        return `Pulled ${from} into ${branch}`;
+      }, "Pull");
+    }
+  );
+
+  const pushCmd = vscode.commands.registerCommand(
+    "boomergit.push",
+    async () => {
+      const session = activeSession();
+      if (!session) return;
+      const branch = checkedOutBranch(session, "Push");
+      if (!branch) return;
+      const upstream = await loadUpstream(session.cwd, branch);
+      const remote = upstream?.remote ?? await pickRemote(session.cwd, `Push ${branch} to`);
+      if (!remote) return;
+      const remoteBranch = upstream?.branch ?? branch;
+      const to = `${remote}/${remoteBranch}`;
+      const picked = await vscode.window.showQuickPick(
+        PUSH_OPTIONS.map((o) => ({ ...o, picked: o.option === "setUpstream" && !upstream })),
+        { canPickMany: true, title: `Push ${branch} to ${to}`, placeHolder: "Options — press Enter for none" }
+      );
+      if (!picked) return;
+      const options: PushOptions = { setUpstream: false, forceWithLease: false };
+      for (const o of picked) options[o.option] = true;
+      if (options.forceWithLease) {
+        const choice = await vscode.window.showWarningMessage(
+          `Force push ${branch} to ${to}?`,
+          {
+            modal: true,
+            detail: `Commits on ${to} that aren't in ${branch} will be lost. The push is refused if ${to} changed since it was last fetched.`,
+          },
+          "Force Push"
+        );
+        if (choice !== "Force Push") return;
+      }
+      await runRemoteAction(session, buildPushArgs(remote, branch, options, remoteBranch),
+        `Pushing ${branch} to ${to}…`, `Pushed ${branch} to ${to}`, "Push");
+    }
+  );
+
+  /** Select the row of branch `name` and show its details under that name */
+  function showBranch(session: GraphSession, name: string): void {
+    const editor = graphEditor(session);
+    const engine = session.decorationEngine;
+    const commits = session.commits ?? [];
+    const idx = commits.findIndex((c) => c.refs.some((r) => r.type === "branch" && r.name === name));
+    if (!editor || !engine || idx < 0) return;
+    engine.clearSelections(editor);
+    engine.selectRow(editor, idx);
+    showSidebar(session, commits[idx], name);
+  }
+
+  const renameBranchCmd = vscode.commands.registerCommand(
+    "boomergit.renameBranch",
+    async (oldName: string) => {
+      const session = activeSession();
+      if (!session) return;
+      const { cwd } = session;
+      const name = await vscode.window.showInputBox({
+        prompt: `Rename branch ${oldName}`,
+        value: oldName,
+        validateInput: (value) => checkRefName(cwd, "refs/heads", value, "branch"),
+      });
+      if (!name || name === oldName) return;
+      const upstream = await loadUpstream(cwd, oldName);
+      let renameOnRemote = false;
+      if (upstream) {
+        const local = "$(git-branch) Rename Locally";
+        const both = `$(cloud-upload) Also Rename ${upstream.remote}/${upstream.branch}`;
+        const picked = await vscode.window.showQuickPick([local, both], { title: `Rename ${oldName} to ${name}` });
+        if (!picked) return;
+        renameOnRemote = picked === both;
+      }
+      try {
+        await runGit(cwd, buildRenameArgs(oldName, name));
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Rename branch failed: ${msg}`);
+        return;
+      }
+      // A filter that picked the branch keeps showing it under its new name
+      const oldRef = `refs/heads/${oldName}`;
+      if (session.filter.refs.includes(oldRef)) {
+        session.filter = { ...session.filter, refs: session.filter.refs.map((r) => (r === oldRef ? `refs/heads/${name}` : r)) };
+        await context.workspaceState.update(filterKey(cwd), session.filter);
+      }
+      let remoteError: string | undefined;
+      if (upstream && renameOnRemote) {
+        const { push, remove } = buildRemoteRenameArgs(upstream, name);
+        try {
+          await withRemoteProgress(cwd, push, `Pushing ${name} to ${upstream.remote}…`);
+          await withRemoteProgress(cwd, remove, `Deleting ${upstream.remote}/${upstream.branch}…`);
+        } catch (err: unknown) {
+          remoteError = err instanceof Error ? err.message : String(err);
+        }
+      }
+      if (upstream && remoteError !== undefined) {
+        vscode.window.showErrorMessage(`Renamed ${oldName} to ${name}, but renaming it on ${upstream.remote} failed: ${remoteError}`);
+      } else {
+        vscode.window.showInformationMessage(`Renamed branch ${oldName} to ${name}`);
+      }
+      // Re-reads the current branch, so a renamed current branch keeps its highlight
+      await refreshGraph(session);
+      showBranch(session, name);
+    }
+  );
+
+  const setUpstreamCmd = vscode.commands.registerCommand(
+    "boomergit.setUpstream",
+    async (branch: string) => {
+      const session = activeSession();
+      if (!session) return;
+      const [refs, upstream] = await Promise.all([listRefs(session.cwd), loadUpstream(session.cwd, branch)]);
+      const current = upstream && `${upstream.remote}/${upstream.branch}`;
+      // An item without an upstream unsets it
+      const items: Array<vscode.QuickPickItem & { upstream?: string }> = refs
+        .filter((r) => r.type === "remote")
+        .map((r) => ({ label: `$(cloud) ${r.name}`, description: r.name === current ? "current upstream" : undefined, upstream: r.name }));
+      if (items.length === 0) {
+        vscode.window.showErrorMessage("There are no remote branches to track. Fetch, or push the branch with Set Upstream.");
+        return;
+      }
+      if (upstream) items.push({ label: "$(circle-slash) Unset Upstream" });
+      const picked = await vscode.window.showQuickPick(items, { title: `Set upstream of ${branch}`, matchOnDescription: true });
+      if (!picked) return;
+      if (picked.upstream) {
+        await runGitAction(buildSetUpstreamArgs(branch, picked.upstream), `${branch} now tracks ${picked.upstream}`, "Set upstream");
+      } else {
+        await runGitAction(buildSetUpstreamArgs(branch), `${branch} no longer has an upstream`, "Unset upstream");
+      }
+    }
+  );
+
+  const createTagCmd = vscode.commands.registerCommand(
+    "boomergit.createTag",
+    async (hash: string) => {
+      const session = activeSession();
+      if (!session) return;
+      const { cwd } = session;
+      const name = await vscode.window.showInputBox({
+        prompt: `New tag at ${hash.slice(0, 8)}`,
+        placeHolder: "v1.0.0",
+        validateInput: (value) => checkRefName(cwd, "refs/tags", value, "tag"),
+      });
+      if (!name) return;
+      const kind = await vscode.window.showQuickPick(TAG_KINDS, { title: `Create tag ${name}` });
+      if (!kind) return;
+      let args = ["tag", name, hash];
+      if (kind.annotated) {
+        const message = await vscode.window.showInputBox({
+          prompt: `Message for tag ${name}`,
+          validateInput: (value) => (value.trim() ? undefined : "An annotated tag needs a message"),
+        });
+        if (!message?.trim()) return;
+        args = ["tag", "-a", name, "-m", message, hash];
+      }
+      await runGitAction(args, `Created tag: ${name}`, "Create tag");
+    }
+  );
+
+  const deleteTagCmd = vscode.commands.registerCommand(
+    "boomergit.deleteTag",
+    async (name: string) => {
+      const choice = await vscode.window.showWarningMessage(
+        `Delete tag "${name}"?`,
+        { modal: true, detail: "Only the local tag is deleted. Use 'Delete Remote Tag' to remove it from a remote." },
+        "Delete"
+      );
+      if (choice !== "Delete") return;
+      await runGitAction(["tag", "-d", name], `Deleted tag: ${name}`, "Delete tag");
+    }
+  );
+
+  const pushTagCmd = vscode.commands.registerCommand(
+    "boomergit.pushTag",
+    async (name: string) => {
+      const session = activeSession();
+      if (!session) return;
+      const remote = await pickRemote(session.cwd, `Push tag ${name} to`);
+      if (!remote) return;
+      await runRemoteAction(session, ["push", "--progress", remote, `refs/tags/${name}`],
+        `Pushing tag ${name} to ${remote}…`, `Pushed tag ${name} to ${remote}`, "Push tag");
+    }
+  );
+
+  const deleteRemoteTagCmd = vscode.commands.registerCommand(
+    "boomergit.deleteRemoteTag",
+    async (name: string) => {
+      const session = activeSession();
+      if (!session) return;
+      const remote = await pickRemote(session.cwd, `Delete tag ${name} from`);
+      if (!remote) return;
+      const choice = await vscode.window.showWarningMessage(
+        `Delete tag "${name}" from ${remote}?`,
+        { modal: true, detail: "The local tag is kept. Others who already fetched the tag keep their copy." },
+        "Delete"
+      );
+      if (choice !== "Delete") return;
+      await runRemoteAction(session, ["push", "--progress", remote, "--delete", `refs/tags/${name}`],
+        `Deleting tag ${name} from ${remote}…`, `Deleted tag ${name} from ${remote}`, "Delete remote tag");
+    }
+  );
+
   const copyTextCmd = vscode.commands.registerCommand(
     "boomergit.copyText",
     async (text: string, message: string) => {
@@ -503,17 +1916,25 @@ export function activate(context: vscode.ExtensionContext) {
 
   const openFileDiffCmd = vscode.commands.registerCommand(
     "boomergit.openFileDiff",
-    async (file: ChangedFile, commitHash: string, parentHash: string, cwd: string) => {
+    async (file: ChangedFile, commitHash: string, parentHash: string, cwd: string, labels?: [string, string]) => {
       const leftRef = (file.status === "A" || !parentHash) ? "empty" : parentHash;
       const rightRef = file.status === "D" ? "empty" : commitHash;
       const leftPath = file.oldPath ?? file.path;
       const rightPath = file.path;
 
-      const leftLabel = leftRef === "empty" ? "New File" : `Parent ${parentHash.slice(0, 8)}`;
-      const rightLabel = rightRef === "empty" ? "Deleted" : `Commit ${commitHash.slice(0, 8)}`;
+      const sideLabel = (ref: string, kind: string) =>
+        ref === INDEX_REF ? "Index"
+          : ref === WORKTREE_REF ? "Working Tree"
+          : ref === "HEAD" ? "HEAD"
+          : `${kind} ${ref.slice(0, 8)}`;
+      const leftLabel = leftRef === "empty" ? "New File" : labels?.[0] ?? sideLabel(parentHash, "Parent");
+      const rightLabel = rightRef === "empty" ? "Deleted" : labels?.[1] ?? sideLabel(commitHash, "Commit");
 
       const leftUri = fileUri(leftPath, leftRef, cwd, leftLabel);
-      const rightUri = fileUri(rightPath, rightRef, cwd, rightLabel);
+      // The working-tree side is the real file, so the diff stays editable
+      const rightUri = rightRef === WORKTREE_REF
+        ? vscode.Uri.file(path.join(cwd, rightPath))
+        : fileUri(rightPath, rightRef, cwd, rightLabel);
 
       const basename = rightPath.split("/").pop() || rightPath;
       const title = `${basename} (${leftLabel} ↔ ${rightLabel})`;
@@ -535,23 +1956,196 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  /**
+   * Ask which repository to graph. The built-in Git extension knows every
+   * repository in the workspace, including ones nested in subfolders; without
+   * it, each workspace folder is offered instead. A single candidate is used
+   * without asking.
+   */
+  async function pickRepository(): Promise<string | undefined> {
+    const api = await getGitApi();
+    let roots: string[] = (api?.repositories ?? []).map((r: any) => r.rootUri.fsPath);
+    if (roots.length === 0) {
+      roots = (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath);
+    }
+    if (roots.length === 0) {
+      vscode.window.showErrorMessage(`${DISPLAY_NAME}: No workspace folder open.`);
+      return undefined;
+    }
+    if (roots.length === 1) return roots[0];
+    const picked = await vscode.window.showQuickPick(
+      [...roots].sort().map((root) => ({
+        label: `$(repo) ${path.basename(root)}`,
+        description: root,
+        root,
+      })),
+      { placeHolder: "Select a repository to graph" }
+    );
+    return picked?.root;
+  }
+
+  const compareSelectedCmd = vscode.commands.registerCommand("boomergit.compareSelected", () => {
+    const session = activeSession();
+    if (session) showComparison(session);
+  });
+
+  const swapCompareCmd = vscode.commands.registerCommand("boomergit.swapCompare", () => {
+    const session = activeSession();
+    const editor = session && graphEditor(session);
+    if (!session?.decorationEngine || !editor) return;
+    session.decorationEngine.swapSelection(editor);
+    showComparison(session);
+  });
+
   const showGraphCmd = vscode.commands.registerCommand(
     "boomergit.showGraph",
-    async () => {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (!workspaceFolder) {
-        vscode.window.showErrorMessage(`${DISPLAY_NAME}: No workspace folder open.`);
+    async (repoPath?: string) => {
+      const cwd = typeof repoPath === "string" ? repoPath : await pickRepository();
+      if (!cwd) return;
+      const session = openSession(cwd);
+      await refreshGraph(session);
+      // Nothing was shown (no commits yet, or git failed): don't leave the
+      // session auto-refreshing with no tab to close it — unless another
+      // open of the same graph is still loading it
+      if (!session.decorationEngine && !session.refreshing) {
+        closeSession(session);
+        vscode.window.showInformationMessage(`${DISPLAY_NAME}: ${path.basename(cwd)} has no commits to show.`);
+      }
+    }
+  );
+
+  const showFileHistoryCmd = vscode.commands.registerCommand(
+    "boomergit.showFileHistory",
+    async (resource?: vscode.Uri) => {
+      const fileUri = resource instanceof vscode.Uri ? resource : vscode.window.activeTextEditor?.document.uri;
+      if (!fileUri || fileUri.scheme !== "file") {
+        vscode.window.showErrorMessage(`${DISPLAY_NAME}: Open or select a file to show its history.`);
         return;
       }
-      workspaceCwd = workspaceFolder.uri.fsPath;
-      await refreshGraph();
+      let toplevel: string;
+      let prefix: string;
+      try {
+        // The prefix is the file's directory within the repository
+        const out = await runGit(path.dirname(fileUri.fsPath), ["rev-parse", "--show-toplevel", "--show-prefix"]);
+        [toplevel, prefix = ""] = out.split("\n");
+      } catch {
+        vscode.window.showErrorMessage(`${DISPLAY_NAME}: ${path.basename(fileUri.fsPath)} is not in a git repository.`);
+        return;
+      }
+      // Prefer the Git extension's root so the file history joins the same
+      // repository as its graph (the two differ when the path has symlinks)
+      const api = await getGitApi();
+      const cwd: string = api?.getRepository(fileUri)?.rootUri.fsPath ?? toplevel;
+      const session = openSession(cwd, prefix + path.basename(fileUri.fsPath));
+      await refreshGraph(session);
+      if (!session.decorationEngine) {
+        // Nothing to show: the file was never committed
+        closeSession(session);
+        vscode.window.showInformationMessage(`${path.basename(fileUri.fsPath)} has no committed history.`);
+      }
     }
   );
 
   // Manual refresh (editor-title button) — keep the user's selection & scroll.
+  // The button passes the graph's URI, so the right repository refreshes even
+  // when several graphs are split side by side.
   const refreshCmd = vscode.commands.registerCommand(
     "boomergit.refresh",
-    () => refreshGraph({ preserveView: true })
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (session) await refreshGraph(session, { preserveView: true });
+    }
+  );
+
+  async function setFilter(session: GraphSession, filter: RefFilter): Promise<void> {
+    session.filter = filter;
+    await context.workspaceState.update(filterKey(session.cwd), filter);
+    updateStatusBar();
+    await refreshGraph(session);
+  }
+
+  type FilterItem = vscode.QuickPickItem & { apply?: (filter: RefFilter) => void; addPattern?: boolean };
+
+  const filterBranchesCmd = vscode.commands.registerCommand(
+    "boomergit.filterBranches",
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (!session) return;
+      const current = session.filter;
+      const refs = await listRefs(session.cwd);
+      const separator = (label: string): FilterItem => ({ label, kind: vscode.QuickPickItemKind.Separator });
+      const refItems = (type: Ref["type"], icon: string): FilterItem[] => refs
+        .filter((ref) => ref.type === type)
+        .map((ref) => ({
+          label: `$(${icon}) ${ref.name}`,
+          picked: current.refs.includes(ref.fullName),
+          apply: (f) => { f.refs.push(ref.fullName); },
+        }));
+
+      const items: FilterItem[] = [
+        separator("Options"),
+        { label: "$(eye-closed) Hide remote branches", picked: current.hideRemotes, apply: (f) => { f.hideRemotes = true; } },
+        { label: "$(eye-closed) Hide tags", picked: current.hideTags, apply: (f) => { f.hideTags = true; } },
+        { label: "$(target) Current branch only", picked: current.currentOnly, apply: (f) => { f.currentOnly = true; } },
+        separator("Patterns"),
+        ...current.globs.map((glob): FilterItem => ({ label: `$(regex) ${glob}`, picked: true, apply: (f) => { f.globs.push(glob); } })),
+        { label: "$(add) Add pattern…", description: "e.g. release/*", addPattern: true },
+        separator("Branches"),
+        ...refItems("branch", "git-branch"),
+        separator("Remote Branches"),
+        ...refItems("remote", "cloud"),
+        separator("Tags"),
+        ...refItems("tag", "tag"),
+      ];
+      const chosen = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: "Show only history reachable from the picked refs (pick none to show all)",
+      });
+      if (!chosen) return;
+
+      const next: RefFilter = { ...NO_FILTER, refs: [], globs: [] };
+      for (const item of chosen) item.apply?.(next);
+      if (chosen.some((item) => item.addPattern)) {
+        const glob = await vscode.window.showInputBox({
+          prompt: "Pattern matched against branch, remote and tag names (* stays within one path segment, ** spans segments)",
+          placeHolder: "release/*",
+        });
+        if (glob?.trim()) next.globs.push(glob.trim());
+      }
+      await setFilter(session, next);
+    }
+  );
+
+  const toggleHideRemotesCmd = vscode.commands.registerCommand(
+    "boomergit.toggleHideRemotes",
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (session) await setFilter(session, { ...session.filter, hideRemotes: !session.filter.hideRemotes });
+    }
+  );
+
+  const toggleHideTagsCmd = vscode.commands.registerCommand(
+    "boomergit.toggleHideTags",
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (session) await setFilter(session, { ...session.filter, hideTags: !session.filter.hideTags });
+    }
+  );
+
+  const toggleCurrentOnlyCmd = vscode.commands.registerCommand(
+    "boomergit.toggleCurrentBranchOnly",
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (session) await setFilter(session, { ...session.filter, currentOnly: !session.filter.currentOnly });
+    }
+  );
+
+  const clearFilterCmd = vscode.commands.registerCommand(
+    "boomergit.clearFilter",
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (session) await setFilter(session, { ...NO_FILTER, refs: [], globs: [] });
+    }
   );
 
   const toggleAutoRefreshCmd = vscode.commands.registerCommand(
@@ -565,109 +2159,316 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  /** Redraw the tiles and badges of every graph on screen, without re-reading history */
+  function redrawGraphs(): void {
+    for (const session of sessions.values()) {
+      const editor = graphEditor(session);
+      if (!editor || !session.decorationEngine || !session.rows || !session.commits) continue;
+      session.decorationEngine.apply(editor, session.rows, session.commits, session.currentBranch);
+    }
+  }
+
   // Keep runtime state in sync if the setting is changed elsewhere.
   const configWatcher = vscode.workspace.onDidChangeConfiguration((e) => {
     if (e.affectsConfiguration("boomergit.autoRefresh")) {
       autoRefreshEnabled = vscode.workspace.getConfiguration("boomergit").get<boolean>("autoRefresh", false);
       updateStatusBar();
     }
+    // Lane colours and pinned lanes are picked during layout
+    if (e.affectsConfiguration("boomergit.branchColors") || e.affectsConfiguration("boomergit.pinnedBranches")) {
+      for (const session of sessions.values()) {
+        if (session.decorationEngine) void refreshGraph(session, { preserveView: true });
+      }
+    } else if (e.affectsConfiguration("boomergit.maxLanes")) {
+      // Redraw the graph tiles with the new lane cap
+      redrawGraphs();
+    }
   });
 
-  // A cheap signature of all ref OIDs + HEAD. Refs cover commits/rebase/fetch/
-  // merge/branch+tag ops; HEAD covers checkout. Used to dedupe refresh triggers
-  // so we only do the real (expensive) refresh when refs actually moved.
-  function getRefSignature(): Promise<string> {
-    if (!workspaceCwd) return Promise.resolve("");
-    const run = (args: string[]) => new Promise<string>((resolve) => {
-      execFile("git", args, { cwd: workspaceCwd, maxBuffer: 10 * 1024 * 1024 },
+  // Tiles and badges are drawn with the palette of the theme's kind; graphs
+  // in the background pick up the new one when their tab is shown again
+  const themeWatcher = vscode.window.onDidChangeActiveColorTheme(() => redrawGraphs());
+
+  // A cheap signature of all ref OIDs + HEAD + working-tree status + stashes.
+  // Refs cover commits/rebase/fetch/merge/branch+tag ops; HEAD covers
+  // checkout; status covers files being modified, staged or cleaned (the
+  // uncommitted row); the stash list covers stash entries below the newest.
+  // Used to dedupe refresh triggers so we only do the real (expensive)
+  // refresh when something shown in the graph actually changed.
+  function getRefSignature(cwd: string): Promise<string> {
+    return Promise.all([
+      getHistorySignature(cwd),
+      runQuiet(cwd, ["--no-optional-locks", "status", "--porcelain=v1", "-z"]),
+      // Dropping an older stash only rewrites the reflog, not refs/stash
+      runQuiet(cwd, ["stash", "list", "--format=%H"]),
+    ]).then((parts) => parts.join(""));
+  }
+
+  /** The part of the ref signature that changes only when history does: every ref's OID and HEAD */
+  function getHistorySignature(cwd: string): Promise<string> {
+    return Promise.all([
+      runQuiet(cwd, ["for-each-ref", "--format=%(objectname) %(refname)"]),
+      runQuiet(cwd, ["rev-parse", "HEAD"]),
+    ]).then((parts) => parts.join(""));
+  }
+
+  /** Identifies the history a search runs over: its revisions and where every ref points */
+  async function historyKey(cwd: string, revisions: string[]): Promise<string> {
+    return `${revisions.join(" ")}\n${await getHistorySignature(cwd)}`;
+  }
+
+  /** git's output, or "" when it fails */
+  function runQuiet(cwd: string, args: string[]): Promise<string> {
+    return new Promise<string>((resolve) => {
+      execFile("git", args, { cwd, maxBuffer: 10 * 1024 * 1024 },
         (err, stdout) => resolve(err ? "" : stdout));
     });
-    return Promise.all([
-      run(["for-each-ref", "--format=%(objectname) %(refname)"]),
-      run(["rev-parse", "HEAD"]),
-    ]).then(([refs, head]) => refs + head);
   }
 
-  async function maybeAutoRefresh(): Promise<void> {
-    if (!autoRefreshEnabled || !isGraphEditorOpen() || refreshing) return;
-    const sig = await getRefSignature();
+  async function maybeAutoRefresh(session: GraphSession): Promise<void> {
+    if (!autoRefreshEnabled || !isGraphEditorOpen(session.uri) || session.refreshing) return;
+    const sig = await getRefSignature(session.cwd);
     if (!sig) return;
-    if (lastRefSig === undefined) { lastRefSig = sig; return; } // establish baseline
-    if (sig !== lastRefSig) {
-      lastRefSig = sig;
-      refreshGraph({ preserveView: true });
+    if (session.lastRefSig === undefined) { session.lastRefSig = sig; return; } // establish baseline
+    if (sig !== session.lastRefSig) {
+      session.lastRefSig = sig;
+      refreshGraph(session, { preserveView: true });
     }
   }
 
   // Change-driven auto-refresh trigger. Prefer the built-in Git extension's
   // change event (event-driven and reliable cross-platform — it does the .git
   // watching for us; VS Code's own FileSystemWatcher does not fire for .git).
-  // Its event also fires on working-tree/index edits, so maybeAutoRefresh()
-  // dedupes via the ref signature. Fall back to a light poll only if that
-  // extension is unavailable.
-  let gitStateSub: vscode.Disposable | undefined;
+  // Its event also fires on every working-tree/index edit, so maybeAutoRefresh()
+  // dedupes via the signature, which only changes when refs move or the set of
+  // changed files does. Fall back to a light poll only if that extension is
+  // unavailable. Each graph subscribes to its own repository's state.
+  let gitApi: any;
   let openRepoSub: vscode.Disposable | undefined;
-  async function setupGitEventTrigger(): Promise<boolean> {
+  async function getGitApi(): Promise<any> {
+    if (gitApi) return gitApi;
     try {
       const ext = vscode.extensions.getExtension<any>("vscode.git");
-      if (!ext) return false;
+      if (!ext) return undefined;
       const git = ext.isActive ? ext.exports : await ext.activate();
-      const api = git.getAPI(1);
-      const mine = () =>
-        api.repositories.find((r: any) => r.rootUri?.fsPath === workspaceCwd) ?? api.repositories[0];
-      const hook = (repo: any) => {
-        if (gitStateSub || !repo) return;
-        gitStateSub = repo.state.onDidChange(() => { void maybeAutoRefresh(); });
-      };
-      hook(mine());
-      openRepoSub = api.onDidOpenRepository(() => hook(mine())); // repos may load after activation
-      return true;
+      gitApi = git.getAPI(1);
+      return gitApi;
     } catch {
-      return false;
+      return undefined;
     }
   }
 
+  function hookSession(session: GraphSession): void {
+    if (session.gitStateSub || !gitApi) return;
+    // getRepository() also resolves a workspace folder nested inside a repo
+    const repo = gitApi.getRepository(vscode.Uri.file(session.cwd));
+    if (!repo) return;
+    session.gitStateSub = repo.state.onDidChange(() => { void maybeAutoRefresh(session); });
+  }
+
+  async function setupGitEventTrigger(): Promise<boolean> {
+    const api = await getGitApi();
+    if (!api) return false;
+    for (const session of sessions.values()) hookSession(session);
+    // Repos may load after activation
+    openRepoSub = api.onDidOpenRepository(() => {
+      for (const session of sessions.values()) hookSession(session);
+    });
+    return true;
+  }
+
   void setupGitEventTrigger().then((ok) => {
     if (ok) return;
-    autoRefreshTimer = setInterval(() => { void maybeAutoRefresh(); }, 3000);
+    autoRefreshTimer = setInterval(() => {
+      for (const session of sessions.values()) void maybeAutoRefresh(session);
+    }, 3000);
   });
 
-  const selectUpCmd = vscode.commands.registerCommand("boomergit.selectUp", () => {
+  /** Select a single row, show it in the sidebar and scroll it into view */
+  function selectLine(session: GraphSession, editor: vscode.TextEditor, targetLine: number): void {
+    const decorationEngine = session.decorationEngine;
     if (!decorationEngine) return;
-    const editor = vscode.window.activeTextEditor;
-    if (!editor || editor.document.uri.scheme !== SCHEME) return;
-    const selected = decorationEngine.getSelectedRows();
-    if (selected.length !== 1) return;
-    const targetLine = Math.max(0, selected[0] - 1);
     decorationEngine.navigateTo(editor, targetLine);
     const commit = decorationEngine.getCommitAt(targetLine);
-    if (commit) showSidebar(commit);
+    if (commit) showSidebar(session, commit);
     ignoreSelectionUntil = Date.now() + 200;
     editor.selection = new vscode.Selection(targetLine, 0, targetLine, 0);
     editor.revealRange(new vscode.Range(targetLine, 0, targetLine, 0), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+
+  const selectUpCmd = vscode.commands.registerCommand("boomergit.selectUp", () => {
+    const editor = vscode.window.activeTextEditor;
+    const session = editor && sessionFor(editor.document.uri);
+    const decorationEngine = session?.decorationEngine;
+    if (!editor || !session || !decorationEngine) return;
+    const selected = decorationEngine.getSelectedRows();
+    if (selected.length !== 1) return;
+    selectLine(session, editor, Math.max(0, selected[0] - 1));
   });
 
   const selectDownCmd = vscode.commands.registerCommand("boomergit.selectDown", () => {
-    if (!decorationEngine) return;
     const editor = vscode.window.activeTextEditor;
-    if (!editor || editor.document.uri.scheme !== SCHEME) return;
+    const session = editor && sessionFor(editor.document.uri);
+    const decorationEngine = session?.decorationEngine;
+    if (!editor || !session || !decorationEngine) return;
     const selected = decorationEngine.getSelectedRows();
     if (selected.length !== 1) return;
     const maxLine = decorationEngine.getTotalRows() - 1;
-    const targetLine = Math.min(maxLine, selected[0] + 1);
-    decorationEngine.navigateTo(editor, targetLine);
-    const commit = decorationEngine.getCommitAt(targetLine);
-    if (commit) showSidebar(commit);
-    ignoreSelectionUntil = Date.now() + 200;
-    editor.selection = new vscode.Selection(targetLine, 0, targetLine, 0);
-    editor.revealRange(new vscode.Range(targetLine, 0, targetLine, 0), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    selectLine(session, editor, Math.min(maxLine, selected[0] + 1));
   });
 
+  const searchCmd = vscode.commands.registerCommand(
+    "boomergit.search",
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (!session) return;
+      const picked = await vscode.window.showQuickPick(SEARCH_MODES, { placeHolder: "Search commits by…" });
+      if (!picked) return;
+      const previous = session.search?.search;
+      const query = await vscode.window.showInputBox({
+        prompt: picked.prompt,
+        value: previous?.mode === picked.mode ? previous.query : undefined,
+        validateInput: (value) =>
+          picked.mode === "hash" && !/^[0-9a-f]*$/i.test(value.trim()) ? "A hash contains only 0-9 and a-f" : undefined,
+      });
+      if (!query?.trim()) return;
+      const search: CommitSearch = { mode: picked.mode, query: picked.mode === "hash" ? query.trim() : query };
+
+      const abort = new AbortController();
+      // Taken before searching, so a change during the search is picked up by the next refresh
+      const key = await historyKey(session.cwd, session.revisions);
+      let result: SearchResult;
+      try {
+        result = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Searching ${path.basename(session.cwd)}…`, cancellable: true },
+          (_progress, token) => {
+            token.onCancellationRequested(() => abort.abort());
+            return searchCommits(session.cwd, session.revisions, search, abort.signal);
+          }
+        );
+      } catch (err: unknown) {
+        if (abort.signal.aborted) return;
+        const msg = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Search failed: ${msg}`);
+        return;
+      }
+      if (result.order.length === 0) {
+        vscode.window.showInformationMessage(`No commits match "${search.query}"`);
+        return;
+      }
+
+      const onlyMatches = session.search?.onlyMatches ?? false;
+      session.search = { search, result, historyKey: key, onlyMatches };
+      updateStatusBar();
+      if (onlyMatches) {
+        await refreshGraph(session);
+        return;
+      }
+      const editor = graphEditor(session);
+      session.decorationEngine?.setMatches(result.matches, editor);
+      // Start from the top rather than from the selected row
+      await goToMatch(session, 1, -1);
+    }
+  );
+
+  /**
+   * Select the next (or previous) match after the selected row, wrapping
+   * around. Further pages are loaded while the next match is beyond them.
+   */
+  async function goToMatch(session: GraphSession, direction: 1 | -1, from?: number): Promise<void> {
+    const editor = graphEditor(session);
+    const decorationEngine = session.decorationEngine;
+    if (!session.search || !editor || !decorationEngine) return;
+    const matches = session.search.result.matches;
+    const matchLines = () => (session.commits ?? []).flatMap((c, i) => matches.has(c.hash) ? [i] : []);
+
+    const current = from ?? decorationEngine.getSelectedRows()[0] ?? -1;
+    const after = (lines: number[]) => direction > 0
+      ? lines.find((l) => l > current)
+      : [...lines].reverse().find((l) => l < current);
+    let lines = matchLines();
+    let target = after(lines);
+    while (target === undefined && direction > 0 && session.hasMoreCommits) {
+      const loaded = session.logCount;
+      await loadMoreCommits(session);
+      if (session.logCount === loaded) break;
+      lines = matchLines();
+      target = after(lines);
+    }
+    // Wrap around to the first (or last loaded) match
+    target ??= direction > 0 ? lines[0] : lines[lines.length - 1];
+    if (target === undefined) return;
+
+    selectLine(session, editor, target);
+    const hash = session.commits![target].hash;
+    const index = session.search.result.order.indexOf(hash);
+    vscode.window.setStatusBarMessage(`BoomerGit: match ${index + 1} of ${session.search.result.order.length}`, 3000);
+  }
+
+  const nextMatchCmd = vscode.commands.registerCommand("boomergit.nextMatch", async () => {
+    const session = activeSession();
+    if (session) await goToMatch(session, 1);
+  });
+
+  const previousMatchCmd = vscode.commands.registerCommand("boomergit.previousMatch", async () => {
+    const session = activeSession();
+    if (session) await goToMatch(session, -1);
+  });
+
+  const toggleOnlyMatchesCmd = vscode.commands.registerCommand(
+    "boomergit.toggleOnlyMatches",
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (!session) return;
+      if (!session.search) {
+        vscode.window.showInformationMessage("Search the commits first, then show only the matches.");
+        return;
+      }
+      session.search.onlyMatches = !session.search.onlyMatches;
+      updateStatusBar();
+      await refreshGraph(session);
+    }
+  );
+
+  const clearSearchCmd = vscode.commands.registerCommand(
+    "boomergit.clearSearch",
+    async (uri?: vscode.Uri) => {
+      const session = sessionFromArg(uri);
+      if (!session?.search) return;
+      const wasCollapsed = session.search.onlyMatches;
+      session.search = undefined;
+      updateStatusBar();
+      if (wasCollapsed) {
+        await refreshGraph(session);
+        return;
+      }
+      const editor = graphEditor(session);
+      session.decorationEngine?.setMatches(undefined, editor);
+    }
+  );
+
   context.subscriptions.push(
     providerReg, fileProviderReg, sidebarView, showGraphCmd, checkoutRefCmd, deleteBranchCmd, createBranchCmd, copyTextCmd, hoverProvider, selectionWatcher,
-    commitInfoReg, changedFilesView, selectUpCmd, selectDownCmd, openFileDiffCmd, visibleEditorsWatcher, tabCloseWatcher,
-    refreshCmd, toggleAutoRefreshCmd, configWatcher, statusBar,
-    { dispose: () => { if (autoRefreshTimer) clearInterval(autoRefreshTimer); gitStateSub?.dispose(); openRepoSub?.dispose(); decorationEngine?.dispose(); } },
+    commitInfoReg, changedFilesView, selectUpCmd, selectDownCmd, openFileDiffCmd, visibleEditorsWatcher, tabCloseWatcher, visibleRangesWatcher, activeEditorWatcher,
+    refreshCmd, toggleAutoRefreshCmd, configWatcher, themeWatcher, statusBar, filterStatusBar, searchStatusBar, headStatusBar, reflogStatusBar,
+    searchCmd, nextMatchCmd, previousMatchCmd, toggleOnlyMatchesCmd, clearSearchCmd, showFileHistoryCmd,
+    compareSelectedCmd, swapCompareCmd,
+    filterBranchesCmd, toggleHideRemotesCmd, toggleHideTagsCmd, toggleCurrentOnlyCmd, clearFilterCmd,
+    stashApplyCmd, stashPopCmd, stashDropCmd, stashBranchCmd,
+    mergeRefCmd, rebaseOntoCmd, rebaseInteractiveCmd, cherryPickCmd, revertCommitCmd, cherryPickRangeCmd, revertRangeCmd,
+    resetToCmd, continueOperationCmd, skipOperationCmd, abortOperationCmd, undoLastOperationCmd, showReflogCmd, closeReflogCmd,
+    renameBranchCmd, setUpstreamCmd, checkoutCommitCmd, createBranchFromHeadCmd, createTagCmd, deleteTagCmd, pushTagCmd, deleteRemoteTagCmd, fetchCmd, pullCmd, pushCmd,
+    rebaseTodoProvider, rebaseTodoReg, todoSaveWatcher, todoCloseWatcher,
+    {
+      dispose: () => {
+        if (autoRefreshTimer) clearInterval(autoRefreshTimer);
+        openRepoSub?.dispose();
+        for (const session of sessions.values()) {
+          session.gitStateSub?.dispose();
+          session.decorationEngine?.dispose();
+        }
+      },
+    },
   );
 }
 
@@ -0,0 +1,32 @@
+import { runGit } from "./exec.js";
+import { buildPushArgs, type Upstream } from "./remote.js";
+
+/**
+ * Input validation for a new branch or tag name under `prefix` ("refs/heads"
+ * or "refs/tags"), leaving the rules to git. `what` names it in the message.
+ */
+export async function checkRefName(cwd: string, prefix: string, name: string, what: string): Promise<string | undefined> {
+  if (!name) return undefined;
+  const valid = await runGit(cwd, ["check-ref-format", `${prefix}/${name}`]).then(() => true, () => false);
+  return valid ? undefined : `"${name}" is not a valid ${what} name`;
+}
+
+export function buildRenameArgs(oldName: string, name: string): string[] {
+  return ["branch", "-m", oldName, name];
+}
+
+/**
+ * The two pushes that rename a branch's upstream to `name`: push the new name,
+ * tracking it from now on, then delete the old one from the remote.
+ */
+export function buildRemoteRenameArgs(upstream: Upstream, name: string): { push: string[]; remove: string[] } {
+  return {
+    push: buildPushArgs(upstream.remote, name, { setUpstream: true, forceWithLease: false }),
+    remove: ["push", "--progress", upstream.remote, "--delete", `refs/heads/${upstream.branch}`],
+  };
+}
+
+/** `git branch` arguments making `upstream` ("origin/main") the upstream of `branch`, or unsetting it */
+export function buildSetUpstreamArgs(branch: string, upstream?: string): string[] {
+  return upstream ? ["branch", `--set-upstream-to=${upstream}`, branch] : ["branch", "--unset-upstream", branch];
+}
@@ -0,0 +1,64 @@
+import { execFile } from "node:child_process";
+import type { ChangedFile, FileStatus } from "./types.js";
+
+/** How two commits relate: their merge base ("" for unrelated histories) and the commits only in each */
+export interface CommitRelation {
+  mergeBase: string;
+  fromOnly: number;
+  toOnly: number;
+}
+
+/** Parse `git rev-list --left-right --count <from>...<to>`: "<only in from>\t<only in to>" */
+export function parseLeftRightCount(output: string): { fromOnly: number; toOnly: number } {
+  const [fromOnly = 0, toOnly = 0] = output.trim().split(/\s+/).map((n) => parseInt(n, 10) || 0);
+  return { fromOnly, toOnly };
+}
+
+/** The merge base as the comparison shows it: "[1]" or "[2]" when it is one of them */
+export function mergeBaseLabel(mergeBase: string, from: string, to: string): string {
+  if (!mergeBase) return "none (unrelated histories)";
+  if (mergeBase === from) return "[1]";
+  if (mergeBase === to) return "[2]";
+  return mergeBase.slice(0, 8);
+}
+
+/** Merge base and ahead/behind counts of `to` against `from` */
+export async function loadCommitRelation(cwd: string, from: string, to: string): Promise<CommitRelation> {
+  const git = (args: string[]) => new Promise<string>((resolve) => {
+    execFile("git", args, { cwd }, (err, stdout) => resolve(err ? "" : stdout.trim()));
+  });
+  const [mergeBase, counts] = await Promise.all([
+    git(["merge-base", from, to]),
+    git(["rev-list", "--left-right", "--count", `${from}...${to}`]),
+  ]);
+  return { mergeBase, ...parseLeftRightCount(counts) };
+}
+
+/**
+ * `git diff-tree` arguments listing the files `hash` changed: against its
+ * first parent, against `from` when given (two compared commits, or a stash
+ * and its base), or as all added for a root commit.
+ */
+export function buildDiffTreeArgs(hash: string, opts: { root?: boolean; from?: string } = {}): string[] {
+  const args = ["diff-tree", "--no-commit-id", "-r", "--name-status"];
+  if (opts.root) args.push("--root");
+  if (opts.from) args.push(opts.from);
+  args.push(hash);
+  return args;
+}
+
+/** Parse `git diff-tree --name-status` output; renames and copies list the old path first */
+export function parseDiffTreeOutput(output: string): ChangedFile[] {
+  const files: ChangedFile[] = [];
+  for (const line of output.trim().split("\n")) {
+    if (!line) continue;
+    const parts = line.split("\t");
+    const status = parts[0].charAt(0) as FileStatus;
+    if (status === "R" || status === "C") {
+      files.push({ status, path: parts[2], oldPath: parts[1] });
+    } else {
+      files.push({ status, path: parts[1] });
+    }
+  }
+  return files;
+}
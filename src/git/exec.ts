@@ -0,0 +1,18 @@
+import { execFile } from "node:child_process";
+
+/**
+ * Run a git command in `cwd` and resolve with its stdout. Rejects with git's
+ * stderr as the error message, since that's what the user needs to see.
+ */
+export function runGit(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git", args,
+      { cwd, maxBuffer: 10 * 1024 * 1024, env: env ? { ...process.env, ...env } : undefined },
+      (err, stdout, stderr) => {
+        if (err) return reject(new Error(stderr || err.message));
+        resolve(stdout);
+      }
+    );
+  });
+}
@@ -0,0 +1,85 @@
+import { refFromFullName, type Ref } from "./types.js";
+
+/** Which starting points the graph is computed from. Remembered per repository. */
+export interface RefFilter {
+  // Full refnames picked explicitly ("refs/heads/main")
+  refs: string[];
+  // Patterns matched against ref names ("release/*")
+  globs: string[];
+  hideRemotes: boolean;
+  hideTags: boolean;
+  currentOnly: boolean;
+}
+
+export const NO_FILTER: RefFilter = {
+  refs: [],
+  globs: [],
+  hideRemotes: false,
+  hideTags: false,
+  currentOnly: false,
+};
+
+export function isFilterActive(filter: RefFilter): boolean {
+  return filter.currentOnly || filter.hideRemotes || filter.hideTags
+    || filter.refs.length > 0 || filter.globs.length > 0;
+}
+
+/**
+ * Match a ref name against a glob: `*` and `?` stay within one path segment,
+ * `**` spans segments.
+ */
+export function matchGlob(pattern: string, name: string): boolean {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*" && pattern[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * The revision arguments for `git log`. Without picked refs or patterns the
+ * graph still starts from every ref, minus the hidden kinds; otherwise it
+ * starts only from the matching refs. `refs` is every branch, remote branch
+ * and tag in the repository.
+ */
+export function buildRevisionArgs(filter: RefFilter, refs: Ref[]): string[] {
+  if (filter.currentOnly) return ["HEAD"];
+  if (filter.refs.length === 0 && filter.globs.length === 0) {
+    // Stash internals (index/untracked commits) stay out; entries come from loadStashes()
+    const args = ["--exclude=refs/stash"];
+    if (filter.hideRemotes) args.push("--exclude=refs/remotes/*");
+    if (filter.hideTags) args.push("--exclude=refs/tags/*");
+    return [...args, "--all"];
+  }
+  const picked = new Set(filter.refs);
+  const selected = refs.filter((ref) => {
+    if (filter.hideRemotes && ref.type === "remote") return false;
+    if (filter.hideTags && ref.type === "tag") return false;
+    return picked.has(ref.fullName)
+      || filter.globs.some((glob) => matchGlob(glob, ref.name) || matchGlob(glob, ref.shortName));
+  });
+  // Nothing matched (e.g. the picked branches were deleted): fall back to HEAD
+  // rather than showing an empty graph
+  return selected.length ? selected.map((ref) => ref.fullName) : ["HEAD"];
+}
+
+/** Short label for the active filter, e.g. "main, release/* · no tags" */
+export function describeFilter(filter: RefFilter): string {
+  if (filter.currentOnly) return "Current branch";
+  const parts: string[] = [];
+  const picked = [...filter.refs.map((r) => refFromFullName(r).name), ...filter.globs];
+  if (picked.length) parts.push(picked.length > 3 ? `${picked.length} refs` : picked.join(", "));
+  if (filter.hideRemotes) parts.push("no remotes");
+  if (filter.hideTags) parts.push("no tags");
+  return parts.join(" · ");
+}
@@ -0,0 +1,153 @@
+import { execFile } from "node:child_process";
+import { access } from "node:fs/promises";
+import * as path from "node:path";
+import { loadLinks, type CommitLink } from "./search.js";
+
+/** How a branch is merged into the current one */
+export type MergeMode = "default" | "ffOnly" | "noFf" | "squash";
+
+/**
+ * `git merge` arguments for merging `ref` into the current branch. The merge
+ * commit keeps git's default message instead of opening an editor.
+ */
+export function buildMergeArgs(ref: string, mode: MergeMode): string[] {
+  switch (mode) {
+    case "default": return ["merge", "--no-edit", ref];
+    case "ffOnly": return ["merge", "--ff-only", ref];
+    case "noFf": return ["merge", "--no-ff", "--no-edit", ref];
+    // Stages the combined changes without committing; see continueArgs()
+    case "squash": return ["merge", "--squash", ref];
+  }
+}
+
+/** Copy commits onto HEAD, or undo them with new commits */
+export type PickKind = "cherryPick" | "revert";
+
+export interface PickOptions {
+  // -x: note "(cherry picked from commit …)" in the message
+  recordOrigin: boolean;
+  // Apply the changes to the working tree and index without committing
+  noCommit: boolean;
+  // Parent number whose side a merge commit's changes are taken against
+  mainline?: number;
+}
+
+/**
+ * `git cherry-pick` / `git revert` arguments, applying `hashes` in the order
+ * given. A revert keeps git's "Revert …" message instead of opening an editor.
+ */
+export function buildPickArgs(kind: PickKind, hashes: string[], options: PickOptions): string[] {
+  const args = kind === "revert" ? ["revert", "--no-edit"] : ["cherry-pick"];
+  if (options.recordOrigin && kind === "cherryPick") args.push("-x");
+  if (options.noCommit) args.push("--no-commit");
+  if (options.mainline) args.push("-m", String(options.mainline));
+  return [...args, ...hashes];
+}
+
+/** True when `ancestor` is in the history of `descendant` */
+function isAncestor(cwd: string, ancestor: string, descendant: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    execFile("git", ["merge-base", "--is-ancestor", ancestor, descendant], { cwd }, (err) => resolve(!err));
+  });
+}
+
+/**
+ * The commits from `a` to `b` (either way round) with their parents, oldest
+ * first: the older one and every commit after it up to the newer one.
+ */
+export async function loadPickRange(cwd: string, a: string, b: string): Promise<CommitLink[]> {
+  let [older, newer] = [a, b];
+  if (!(await isAncestor(cwd, a, b))) {
+    if (!(await isAncestor(cwd, b, a))) throw new Error("the two commits aren't on one line of history");
+    [older, newer] = [b, a];
+  }
+  const [first, rest] = await Promise.all([
+    loadLinks(cwd, ["--max-count=1", older]),
+    loadLinks(cwd, [`${older}..${newer}`]),
+  ]);
+  return [...first, ...rest.reverse()];
+}
+
+/** What a reset keeps: the index and working tree (soft), the working tree (mixed) or nothing (hard) */
+export type ResetMode = "soft" | "mixed" | "hard";
+
+export function buildResetArgs(mode: ResetMode, target: string): string[] {
+  return ["reset", `--${mode}`, target];
+}
+
+/**
+ * `git` arguments that move HEAD back to where it was before a reset. After a
+ * hard reset `--keep` is used instead, so changes made since aren't thrown away.
+ */
+export function undoResetArgs(mode: ResetMode, oldHead: string): string[] {
+  return ["reset", mode === "hard" ? "--keep" : `--${mode}`, oldHead];
+}
+
+/**
+ * A git operation that stopped part-way, usually for conflicts. A squash
+ * merge leaves no MERGE_HEAD, only the prepared message in SQUASH_MSG.
+ */
+export interface OperationState {
+  kind: "merge" | "rebase" | PickKind;
+  squash?: boolean;
+}
+
+const GIT_COMMANDS: Record<OperationState["kind"], string> = {
+  merge: "merge",
+  rebase: "rebase",
+  cherryPick: "cherry-pick",
+  revert: "revert",
+};
+
+/** Name of the operation for menus and messages */
+export function operationLabel(state: OperationState): string {
+  switch (state.kind) {
+    case "merge": return "Merge";
+    case "rebase": return "Rebase";
+    case "cherryPick": return "Cherry-Pick";
+    case "revert": return "Revert";
+  }
+}
+
+/**
+ * `git` arguments that finish the operation once its conflicts are resolved
+ * and staged. Run them with GIT_EDITOR=true so git keeps the message it
+ * prepared instead of waiting for an editor.
+ */
+export function continueArgs(state: OperationState): string[] {
+  // Commits with the message git prepared (MERGE_MSG or SQUASH_MSG)
+  if (state.kind === "merge") return ["commit", "--no-edit"];
+  return [GIT_COMMANDS[state.kind], "--continue"];
+}
+
+/** `git` arguments that leave out the commit the operation stopped on, if it can */
+export function skipArgs(state: OperationState): string[] | undefined {
+  return state.kind === "merge" ? undefined : [GIT_COMMANDS[state.kind], "--skip"];
+}
+
+/** `git` arguments that abandon the operation and restore the state before it */
+export function abortArgs(state: OperationState): string[] {
+  // `merge --abort` needs MERGE_HEAD; `reset --merge` is what it runs
+  if (state.squash) return ["reset", "--merge"];
+  return [GIT_COMMANDS[state.kind], "--abort"];
+}
+
+/** The operation in progress in the repository at `cwd`, if any */
+export async function getOperationState(cwd: string): Promise<OperationState | undefined> {
+  // rebase-merge/ is the interactive and merge backend's state, rebase-apply/ the apply backend's
+  const files = ["rebase-merge", "rebase-apply", "CHERRY_PICK_HEAD", "REVERT_HEAD", "MERGE_HEAD", "SQUASH_MSG"];
+  const paths = await new Promise<string[]>((resolve) => {
+    execFile("git", ["rev-parse", ...files.flatMap((f) => ["--git-path", f])], { cwd },
+      (err, stdout) => resolve(err ? [] : stdout.split("\n").filter(Boolean)));
+  });
+  if (paths.length < files.length) return undefined;
+  const exists = (file: string) => access(path.resolve(cwd, file)).then(() => true, () => false);
+  const [rebaseMerge, rebaseApply, cherryPickHead, revertHead, mergeHead, squashMsg] = await Promise.all(paths.map(exists));
+  // A rebase replays commits by cherry-picking them, so it's checked first
+  if (rebaseMerge || rebaseApply) return { kind: "rebase" };
+  if (cherryPickHead) return { kind: "cherryPick" };
+  if (revertHead) return { kind: "revert" };
+  if (mergeHead) return { kind: "merge", squash: false };
+  if (squashMsg) return { kind: "merge", squash: true };
+  return undefined;
+}
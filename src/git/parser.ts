@@ -1,65 +1,419 @@
 import { execFile } from "node:child_process";
-import { Commit, parseRefs } from "./types.js";
+import { ChangedFile, Commit, FileStatus, parseRefs, Ref, refFromFullName, type Tracking } from "./types.js";
+import { buildRevisionArgs, NO_FILTER } from "./filter.js";
 
-const GIT_LOG_FORMAT = "%H|%P|%an|%ae|%at|%s|%D";
+// Fields are NUL-separated and each record ends with an ASCII record
+// separator. Neither can occur in a name, email or subject, so pipes in an
+// author name or an empty ref field can never shift the fields.
+const FIELD_SEP = "\x00";
+const RECORD_SEP = "\x1e";
+const LOG_FIELDS = [
+  "%H", // hash
+  "%P", // parents
+  "%an", "%ae", // author
+  "%aN", "%aE", // author, mailmap-resolved
+  "%at", // author date
+  "%cn", "%ce", "%ct", // committer
+  "%t", // abbreviated tree hash
+  "%s", // subject
+  "%D", // ref names
+];
+const GIT_LOG_FORMAT = LOG_FIELDS.join("%x00") + "%x1e";
+// Log fields plus the reflog selector ("stash@{0}")
+const STASH_FORMAT = [...LOG_FIELDS, "%gd"].join("%x00") + "%x1e";
+// Log fields plus the reflog selector ("HEAD@{2}") and message ("reset: moving to HEAD~1")
+const REFLOG_FORMAT = [...LOG_FIELDS, "%gd", "%gs"].join("%x00") + "%x1e";
+// The separator leads each record here: --name-status output follows the format
+const FILE_HISTORY_FORMAT = "%x1e" + LOG_FIELDS.join("%x00");
 
-export function parseGitLog(cwd: string): Promise<Commit[]> {
-  return new Promise((resolve, reject) => {
+/** Number of commits loaded per page; further pages load as the user scrolls. */
+export const PAGE_SIZE = 2000;
+
+/** Which slice of the topo-ordered history to read. */
+export interface LogPage {
+  skip?: number;
+  maxCount?: number;
+}
+
+/**
+ * Read one page of history. `revisions` are the starting points (see
+ * buildRevisionArgs); by default every ref except stash internals.
+ * `tracking` is the branches' upstream status when the caller already has
+ * it, as the graph does for every page after a refresh; read here otherwise.
+ */
+export async function parseGitLog(
+  cwd: string,
+  page: LogPage = {},
+  revisions: string[] = buildRevisionArgs(NO_FILTER, []),
+  tracking?: Map<string, Tracking>,
+): Promise<Commit[]> {
+  const { skip = 0, maxCount = PAGE_SIZE } = page;
+  const [remotes, upstreams, output] = await Promise.all([
+    listRemotes(cwd),
+    tracking ?? loadTracking(cwd),
+    new Promise<string>((resolve, reject) => {
+      execFile(
+        "git",
+        [
+          "log", "--decorate=full", `--format=${GIT_LOG_FORMAT}`, "--topo-order",
+          `--skip=${skip}`, `--max-count=${maxCount}`,
+          ...revisions,
+        ],
+        { cwd, maxBuffer: 50 * 1024 * 1024 },
+        (err, stdout) => {
+          if (err) return reject(err);
+          resolve(stdout);
+        }
+      );
+    }),
+  ]);
+  return parseLogOutput(output, remotes, upstreams);
+}
+
+/** Read the given commits, in the given order, without walking their history */
+export async function loadCommits(cwd: string, hashes: string[], tracking?: Map<string, Tracking>): Promise<Commit[]> {
+  if (hashes.length === 0) return [];
+  const [remotes, upstreams, output] = await Promise.all([
+    listRemotes(cwd),
+    tracking ?? loadTracking(cwd),
+    new Promise<string>((resolve, reject) => {
+      const child = execFile(
+        "git",
+        ["log", "--no-walk=unsorted", "--stdin", "--decorate=full", `--format=${GIT_LOG_FORMAT}`],
+        { cwd, maxBuffer: 50 * 1024 * 1024 },
+        (err, stdout) => {
+          if (err) return reject(err);
+          resolve(stdout);
+        }
+      );
+      // Through stdin: there can be more hashes than fit on a command line
+      child.stdin?.end(hashes.join("\n") + "\n");
+    }),
+  ]);
+  return parseLogOutput(output, remotes, upstreams);
+}
+
+/** A commit in a file's history and how it changed the file */
+export interface FileHistoryEntry {
+  commit: Commit;
+  // Undefined for a merge, which git lists without a diff
+  file?: ChangedFile;
+}
+
+/**
+ * The commits that touched `filePath`, following it across renames. Their
+ * parents are the real ones; most of them are not in the file's history.
+ */
+export async function loadFileHistory(
+  cwd: string,
+  filePath: string,
+  revisions: string[],
+  tracking?: Map<string, Tracking>,
+): Promise<FileHistoryEntry[]> {
+  const [remotes, upstreams, output] = await Promise.all([
+    listRemotes(cwd),
+    tracking ?? loadTracking(cwd),
+    new Promise<string>((resolve, reject) => {
+      execFile(
+        "git",
+        [
+          "log", "--follow", "-z", "--name-status", "--decorate=full", `--format=${FILE_HISTORY_FORMAT}`, "--topo-order",
+          ...revisions, "--", filePath,
+        ],
+        { cwd, maxBuffer: 50 * 1024 * 1024 },
+        (err, stdout) => {
+          if (err) return reject(err);
+          resolve(stdout);
+        }
+      );
+    }),
+  ]);
+  return parseFileHistoryOutput(output, remotes, upstreams);
+}
+
+export function parseFileHistoryOutput(
+  output: string,
+  remotes: string[] = [],
+  tracking: Map<string, Tracking> = new Map(),
+): FileHistoryEntry[] {
+  const entries: FileHistoryEntry[] = [];
+  for (const raw of output.split(RECORD_SEP)) {
+    const tokens = raw.split(FIELD_SEP);
+    if (tokens.length < LOG_FIELDS.length) continue;
+    const commit = commitFromFields(tokens.slice(0, LOG_FIELDS.length), remotes, tracking);
+    // -z name-status: "\n<status>\0<path>\0"; renames and copies list the old path first
+    const [statusRaw = "", first, second] = tokens.slice(LOG_FIELDS.length);
+    const status = statusRaw.trim().charAt(0) as FileStatus;
+    let file: ChangedFile | undefined;
+    if (status === "R" || status === "C") file = { status, path: second, oldPath: first };
+    else if (status) file = { status, path: first };
+    entries.push({ commit, file });
+  }
+  return entries;
+}
+
+/** Names of the configured remotes, used to split remote-tracking refnames */
+export function listRemotes(cwd: string): Promise<string[]> {
+  return new Promise((resolve) => {
+    execFile("git", ["remote"], { cwd }, (err, stdout) => {
+      resolve(err ? [] : stdout.split("\n").map((r) => r.trim()).filter(Boolean));
+    });
+  });
+}
+
+/**
+ * Upstream status of every local branch that has an upstream, keyed by full
+ * refname. Read from `%(upstream:track)`: "[ahead 2, behind 5]", "[gone]",
+ * or nothing when the branch and its upstream are level.
+ */
+export function parseTrackingOutput(output: string): Map<string, Tracking> {
+  const tracking = new Map<string, Tracking>();
+  for (const line of output.split("\n")) {
+    const [refname, upstream, track = ""] = line.split(FIELD_SEP);
+    if (!refname || !upstream) continue;
+    const ahead = parseInt(/ahead (\d+)/.exec(track)?.[1] ?? "0", 10);
+    const behind = parseInt(/behind (\d+)/.exec(track)?.[1] ?? "0", 10);
+    tracking.set(refname, { upstream, ahead, behind, gone: track === "[gone]" });
+  }
+  return tracking;
+}
+
+/** Upstream status of the local branches; see parseTrackingOutput */
+export function loadTracking(cwd: string): Promise<Map<string, Tracking>> {
+  return new Promise((resolve) => {
     execFile(
       "git",
-      ["log", "--all", `--format=${GIT_LOG_FORMAT}`, "--topo-order"],
-      { cwd, maxBuffer: 50 * 1024 * 1024 },
-      (err, stdout) => {
-        if (err) return reject(err);
-        resolve(parseLogOutput(stdout));
-      }
+      ["for-each-ref", "--format=%(refname)%00%(upstream:short)%00%(upstream:track)", "refs/heads"],
+      { cwd, maxBuffer: 10 * 1024 * 1024 },
+      (err, stdout) => resolve(err ? new Map() : parseTrackingOutput(stdout))
     );
   });
 }
 
-export function parseLogOutput(output: string): Commit[] {
-  const commits: Commit[] = [];
+/**
+ * The commits `refs` ("HEAD", "main", "origin/develop") point to, in order,
+ * leaving out refs that don't exist and commits `git log <revisions>` doesn't
+ * show — `rev-list <commit> --not <revisions>` lists nothing for those shown.
+ */
+export async function resolveShownCommits(cwd: string, refs: string[], revisions: string[]): Promise<string[]> {
+  const run = (args: string[]) => new Promise<string | undefined>((resolve) => {
+    execFile("git", args, { cwd }, (err, stdout) => resolve(err ? undefined : stdout.trim()));
+  });
+  const shown = await Promise.all(refs.map(async (ref) => {
+    const hash = await run(["rev-parse", "--verify", "-q", "--end-of-options", `${ref}^{commit}`]);
+    if (!hash) return undefined;
+    return await run(["rev-list", "-n", "1", hash, "--not", ...revisions]) === "" ? hash : undefined;
+  }));
+  return shown.filter((hash): hash is string => !!hash);
+}
+
+/**
+ * Every local branch, remote branch and tag — the refs a graph filter can
+ * pick from. Symbolic remote HEADs (origin/HEAD) are left out.
+ */
+export async function listRefs(cwd: string): Promise<Ref[]> {
+  const [remotes, output] = await Promise.all([
+    listRemotes(cwd),
+    new Promise<string>((resolve) => {
+      execFile(
+        "git",
+        ["for-each-ref", "--format=%(refname)", "refs/heads", "refs/remotes", "refs/tags"],
+        { cwd, maxBuffer: 10 * 1024 * 1024 },
+        (err, stdout) => resolve(err ? "" : stdout)
+      );
+    }),
+  ]);
+  return output.split("\n")
+    .filter((line) => line && !line.endsWith("/HEAD"))
+    .map((line) => refFromFullName(line, remotes));
+}
+
+/**
+ * Parse `git for-each-ref --format=%(refname)%00%(objectname)%00%(*objectname)`
+ * into the refs on each commit, keyed by hash. An annotated tag is keyed by
+ * the commit it tags (`%(*objectname)`), where the log shows it too.
+ */
+export function parseRefTips(output: string, remotes: string[] = []): Map<string, Ref[]> {
+  const tips = new Map<string, Ref[]>();
   for (const line of output.split("\n")) {
-    if (!line.trim()) continue;
-    // Split on pipe, but subject may contain pipes — limit to 7 parts
-    const parts = line.split("|");
-    if (parts.length < 6) continue;
-
-    const hash = parts[0];
-    const parentStr = parts[1];
-    const author = parts[2];
-    const email = parts[3];
-    const timestamp = parseInt(parts[4], 10);
-    const subject = parts.slice(5, parts.length - 1).join("|");
-    const refStr = parts[parts.length - 1];
-
-    // If there are exactly 7 parts, subject is parts[5] and refs is parts[6]
-    // If there are more, the subject contained pipes
-    // Edge case: if there are exactly 6 parts, there are no refs
-    let finalSubject: string;
-    let finalRefStr: string;
-    if (parts.length === 7) {
-      finalSubject = parts[5];
-      finalRefStr = parts[6];
-    } else if (parts.length === 6) {
-      // No ref names field — subject might be empty or the format had no refs
-      finalSubject = parts[5];
-      finalRefStr = "";
-    } else {
-      // parts.length > 7 — subject contained pipe chars
-      finalSubject = parts.slice(5, parts.length - 1).join("|");
-      finalRefStr = parts[parts.length - 1];
-    }
+    const [refname, hash, peeled] = line.split(FIELD_SEP);
+    if (!refname || !hash || refname.endsWith("/HEAD")) continue;
+    const target = peeled || hash;
+    const refs = tips.get(target);
+    const ref = refFromFullName(refname, remotes);
+    if (refs) refs.push(ref);
+    else tips.set(target, [ref]);
+  }
+  return tips;
+}
 
-    commits.push({
-      hash,
-      parents: parentStr ? parentStr.split(" ") : [],
-      author,
-      email,
-      timestamp,
-      subject: finalSubject,
-      refs: parseRefs(finalRefStr),
-    });
+/** The branches, remote branches and tags on each commit; see parseRefTips */
+export async function loadRefTips(cwd: string): Promise<Map<string, Ref[]>> {
+  const [remotes, output] = await Promise.all([
+    listRemotes(cwd),
+    new Promise<string>((resolve) => {
+      execFile(
+        "git",
+        ["for-each-ref", "--format=%(refname)%00%(objectname)%00%(*objectname)", "refs/heads", "refs/remotes", "refs/tags"],
+        { cwd, maxBuffer: 10 * 1024 * 1024 },
+        (err, stdout) => resolve(err ? "" : stdout)
+      );
+    }),
+  ]);
+  return parseRefTips(output, remotes);
+}
+
+/** Split formatted log output into records of fields, dropping incomplete ones */
+function splitRecords(output: string, fieldCount: number): string[][] {
+  const records: string[][] = [];
+  for (const raw of output.split(RECORD_SEP)) {
+    // git terminates each formatted record with a newline after our separator
+    const record = raw.replace(/^\n/, "");
+    if (!record.trim()) continue;
+    const fields = record.split(FIELD_SEP);
+    if (fields.length < fieldCount) continue;
+    records.push(fields);
+  }
+  return records;
+}
+
+function commitFromFields(fields: string[], remotes: string[], tracking: Map<string, Tracking> = new Map()): Commit {
+  const [
+    hash, parentStr,
+    author, email,
+    mailmapAuthor, mailmapEmail,
+    authorTime,
+    committer, committerEmail, commitTime,
+    treeHash,
+    subject,
+    refStr,
+  ] = fields;
+
+  return {
+    hash,
+    parents: parentStr ? parentStr.split(" ") : [],
+    author,
+    email,
+    timestamp: parseInt(authorTime, 10),
+    mailmapAuthor,
+    mailmapEmail,
+    committer,
+    committerEmail,
+    commitTimestamp: parseInt(commitTime, 10),
+    treeHash,
+    subject,
+    refs: parseRefs(refStr, remotes).map((ref) => {
+      const upstream = ref.type === "branch" ? tracking.get(ref.fullName) : undefined;
+      return upstream ? { ...ref, tracking: upstream } : ref;
+    }),
+  };
+}
+
+export function parseLogOutput(output: string, remotes: string[] = [], tracking: Map<string, Tracking> = new Map()): Commit[] {
+  return splitRecords(output, LOG_FIELDS.length).map((fields) => commitFromFields(fields, remotes, tracking));
+}
+
+/**
+ * Every stash entry, newest first. `git log --all` only reaches the newest
+ * one (refs/stash itself), so the entries are read from the stash reflog.
+ */
+export function loadStashes(cwd: string): Promise<Commit[]> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["stash", "list", `--format=${STASH_FORMAT}`],
+      { cwd, maxBuffer: 10 * 1024 * 1024 },
+      (err, stdout) => resolve(err ? [] : parseStashOutput(stdout))
+    );
+  });
+}
+
+/**
+ * Parse stash entries into graph nodes. A stash commit's parents are its base
+ * commit, the saved index and (optionally) the untracked files; only the base
+ * is kept so the node joins the graph there and the internal commits stay out
+ * of it.
+ */
+export function parseStashOutput(output: string): Commit[] {
+  return splitRecords(output, LOG_FIELDS.length + 1).map((fields) => {
+    const commit = commitFromFields(fields, []);
+    const selector = fields[LOG_FIELDS.length];
+    return {
+      ...commit,
+      parents: commit.parents.slice(0, 1),
+      refs: [{ name: selector, type: "stash", fullName: "refs/stash", shortName: selector, isLocal: true }],
+      kind: "stash",
+    };
+  });
+}
+
+/**
+ * The reflog of `ref` ("HEAD" or a branch), newest first, as a timeline of
+ * positions. Positions no ref reaches any more are marked as ghosts.
+ */
+export async function loadReflog(cwd: string, ref: string): Promise<Commit[]> {
+  const output = await new Promise<string>((resolve, reject) => {
+    execFile(
+      "git",
+      ["log", "--walk-reflogs", `--format=${REFLOG_FORMAT}`, `--max-count=${PAGE_SIZE}`, ref],
+      { cwd, maxBuffer: 50 * 1024 * 1024 },
+      (err, stdout, stderr) => (err ? reject(new Error(stderr || err.message)) : resolve(stdout))
+    );
+  });
+  const entries = parseReflogOutput(output);
+  const unreachable = await new Promise<Set<string>>((resolve) => {
+    const child = execFile(
+      "git",
+      ["rev-list", "--stdin", "--not", "--all"],
+      { cwd, maxBuffer: 50 * 1024 * 1024 },
+      (err, stdout) => resolve(new Set(err ? [] : stdout.split("\n").filter(Boolean)))
+    );
+    child.stdin?.end(entries.map((e) => e.hash).join("\n") + "\n");
+  });
+  return entries.map((e) => (unreachable.has(e.hash) ? { ...e, ghost: true } : e));
+}
+
+/**
+ * Parse reflog entries into rows. Each entry is shown with its selector as
+ * the only ref and the reflog message as the subject, and is joined to the
+ * next older entry instead of its commit's parents, so the rows form one
+ * line through the positions the ref has had.
+ */
+export function parseReflogOutput(output: string): Commit[] {
+  const records = splitRecords(output, LOG_FIELDS.length + 2);
+  return records.map((fields, i) => {
+    const commit = commitFromFields(fields, []);
+    const [selector, message] = fields.slice(LOG_FIELDS.length);
+    const older = records[i + 1]?.[0];
+    return {
+      ...commit,
+      parents: older ? [older] : [],
+      subject: message,
+      refs: [{ name: selector, type: "reflog", fullName: selector, shortName: selector, isLocal: true }],
+    };
+  });
+}
+
+/**
+ * Place each stash directly above its base commit. Stashes whose base isn't
+ * among `commits` (not loaded yet) come back as `pending` for the next page.
+ */
+export function insertStashes(commits: Commit[], stashes: Commit[]): { commits: Commit[]; pending: Commit[] } {
+  if (stashes.length === 0) return { commits, pending: [] };
+  const byBase = new Map<string, Commit[]>();
+  for (const stash of stashes) {
+    const base = stash.parents[0];
+    if (!byBase.has(base)) byBase.set(base, []);
+    byBase.get(base)!.push(stash);
+  }
+  const result: Commit[] = [];
+  for (const commit of commits) {
+    const above = byBase.get(commit.hash);
+    if (above) {
+      result.push(...above);
+      byBase.delete(commit.hash);
+    }
+    result.push(commit);
   }
-  return commits;
+  return { commits: result, pending: [...byBase.values()].flat() };
 }
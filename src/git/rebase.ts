@@ -0,0 +1,113 @@
+import { execFile } from "node:child_process";
+
+/** What an interactive rebase does with one commit */
+export type RebaseAction = "pick" | "reword" | "squash" | "fixup" | "drop";
+
+/** One line of the rebase todo list */
+export interface TodoEntry {
+  action: RebaseAction;
+  hash: string;
+  // For reword, the new subject; otherwise just a reminder of the commit
+  subject: string;
+}
+
+const ACTIONS: Record<string, RebaseAction> = {
+  pick: "pick", p: "pick",
+  reword: "reword", r: "reword",
+  squash: "squash", s: "squash",
+  fixup: "fixup", f: "fixup",
+  drop: "drop", d: "drop",
+};
+
+/** The todo document shown to the user: instructions, then one line per commit, oldest first */
+export function formatTodo(entries: TodoEntry[], title: string): string {
+  const header = [
+    `# ${title}`,
+    "#",
+    "# Commits are replayed from top to bottom. Change the first word of a line to",
+    "#   pick, reword, squash, fixup or drop (or p, r, s, f, d),",
+    "# move lines to reorder the commits, and save to start the rebase.",
+    "# For reword, edit the subject after the hash. Removing a line drops the commit.",
+    "# To cancel, close without saving or remove every line.",
+    "",
+  ];
+  return [...header, ...entries.map((e) => `${e.action} ${e.hash.slice(0, 10)} ${e.subject}`)].join("\n") + "\n";
+}
+
+/**
+ * Read the edited todo document back. Abbreviated hashes are resolved
+ * against `commits`, the commits the document was opened with; anything
+ * else is an error, as is a squash or fixup with no commit before it.
+ * Errors name the 1-based line. Commits whose line was removed come back as
+ * drops at the end; with no lines left the result is empty.
+ */
+export function parseTodo(text: string, commits: TodoEntry[]): TodoEntry[] {
+  const entries: TodoEntry[] = [];
+  const fail = (i: number, message: string) => new Error(`Line ${i + 1}: ${message}`);
+  text.split("\n").forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    const match = /^(\S+)\s+(\S+)\s*(.*)$/.exec(line);
+    if (!match) throw fail(i, `expected "<action> <hash>", got "${line}"`);
+    const [, word, prefix, subject] = match;
+    const action = ACTIONS[word.toLowerCase()];
+    if (!action) throw fail(i, `unknown action "${word}"`);
+    const found = commits.filter((c) => c.hash.startsWith(prefix.toLowerCase()));
+    if (found.length !== 1) throw fail(i, `"${prefix}" is not one of the commits being rebased`);
+    if (entries.some((e) => e.hash === found[0].hash)) throw fail(i, `${prefix} is listed twice`);
+    if (action === "reword" && !subject.trim()) throw fail(i, "reword needs the new subject after the hash");
+    if ((action === "squash" || action === "fixup") && !entries.some((e) => e.action !== "drop")) {
+      throw fail(i, `${action} needs an earlier commit to combine with`);
+    }
+    entries.push({ action, hash: found[0].hash, subject: subject.trim() });
+  });
+  if (entries.length === 0) return entries;
+  const listed = new Set(entries.map((e) => e.hash));
+  const removed = commits.filter((c) => !listed.has(c.hash)).map((c): TodoEntry => ({ ...c, action: "drop" }));
+  return [...entries, ...removed];
+}
+
+/**
+ * The todo list handed to `git rebase -i`. git has no way to take a new
+ * message from the todo list, so a reworded commit is picked and then
+ * amended with the message in `rewordFiles` (keyed by hash).
+ */
+export function buildGitTodo(entries: TodoEntry[], rewordFiles: Map<string, string>): string {
+  const lines: string[] = [];
+  for (const entry of entries) {
+    const file = rewordFiles.get(entry.hash);
+    if (entry.action === "reword" && file) {
+      lines.push(`pick ${entry.hash}`);
+      lines.push(`exec git commit --amend --no-verify --allow-empty -F ${shellQuote(file)}`);
+    } else {
+      lines.push(`${entry.action} ${entry.hash}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Quote for the POSIX shell git runs `exec` lines and editors with */
+export function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The commits a rebase of HEAD onto `onto` replays, oldest first — like git,
+ * leaving out merges and commits whose change is already in `onto`.
+ */
+export function loadRebaseCommits(cwd: string, onto: string): Promise<TodoEntry[]> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      ["log", "--format=%H%x00%s", "--reverse", "--topo-order", "--no-merges", "--right-only", "--cherry-pick", `${onto}...HEAD`],
+      { cwd, maxBuffer: 10 * 1024 * 1024 },
+      (err, stdout, stderr) => {
+        if (err) return reject(new Error(stderr || err.message));
+        resolve(stdout.split("\n").filter(Boolean).map((line) => {
+          const [hash, subject] = line.split("\x00");
+          return { action: "pick", hash, subject };
+        }));
+      }
+    );
+  });
+}
@@ -0,0 +1,118 @@
+import { execFile, spawn } from "node:child_process";
+
+/** One progress update from git, e.g. "Receiving objects:  45% (9/20)" */
+export interface GitProgress {
+  phase: string;
+  percent: number;
+}
+
+/**
+ * Read a line of git's `--progress` output. Lines relayed from the remote
+ * ("remote: Counting objects: …") count too; anything else is undefined.
+ */
+export function parseProgressLine(line: string): GitProgress | undefined {
+  const match = /^(?:remote:\s*)?([A-Za-z][A-Za-z ]*?):\s+(\d{1,3})%/.exec(line.trim());
+  if (!match) return undefined;
+  return { phase: match[1], percent: parseInt(match[2], 10) };
+}
+
+export interface FetchOptions {
+  // A single remote to fetch; all remotes when undefined
+  remote?: string;
+  // Delete remote-tracking branches whose branch is gone from the remote
+  prune: boolean;
+}
+
+export function buildFetchArgs(options: FetchOptions): string[] {
+  const args = ["fetch", "--progress", options.remote ?? "--all"];
+  if (options.prune) args.push("--prune");
+  return args;
+}
+
+/** How a pull combines the fetched branch with the current one */
+export type PullMode = "merge" | "rebase";
+
+/**
+ * `git pull` arguments. Without `source` the branch's upstream is pulled. A
+ * merge keeps git's message instead of opening an editor.
+ */
+export function buildPullArgs(mode: PullMode, source?: { remote: string; branch: string }): string[] {
+  const args = ["pull", "--progress", ...(mode === "rebase" ? ["--rebase"] : ["--no-rebase", "--no-edit"])];
+  return source ? [...args, source.remote, source.branch] : args;
+}
+
+export interface PushOptions {
+  // -u: make remote/branch the upstream of the local branch
+  setUpstream: boolean;
+  // Overwrite the remote branch, unless it moved since it was last fetched
+  forceWithLease: boolean;
+}
+
+/** `git push` arguments for local `branch`, to `remoteBranch` (by default the same name) on `remote` */
+export function buildPushArgs(remote: string, branch: string, options: PushOptions, remoteBranch = branch): string[] {
+  const args = ["push", "--progress"];
+  if (options.setUpstream) args.push("--set-upstream");
+  if (options.forceWithLease) args.push("--force-with-lease");
+  const refspec = remoteBranch === branch ? `refs/heads/${branch}` : `refs/heads/${branch}:refs/heads/${remoteBranch}`;
+  return [...args, remote, refspec];
+}
+
+/** The remote branch `branch` pulls from and pushes to */
+export interface Upstream {
+  remote: string;
+  // The branch name on the remote, e.g. "main"
+  branch: string;
+}
+
+/** The upstream configured for local branch `branch`, if any */
+export function loadUpstream(cwd: string, branch: string): Promise<Upstream | undefined> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["for-each-ref", "--format=%(upstream:remotename)%00%(upstream:remoteref)", `refs/heads/${branch}`],
+      { cwd },
+      (err, stdout) => {
+        const [remote, ref = ""] = err ? [] : stdout.trim().split("\x00");
+        resolve(remote && ref ? { remote, branch: ref.replace(/^refs\/heads\//, "") } : undefined);
+      }
+    );
+  });
+}
+
+/**
+ * Run a git command that talks to a remote and resolve with its stdout.
+ * Progress lines on stderr go to `onProgress`; the rest of stderr is the
+ * error message. Terminal prompts are turned off: with no terminal to
+ * answer them git would wait forever, so a missing credential fails instead.
+ */
+export function runRemoteGit(
+  cwd: string,
+  args: string[],
+  onProgress?: (progress: GitProgress) => void,
+  env?: NodeJS.ProcessEnv
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, { cwd, env: { ...process.env, GIT_TERMINAL_PROMPT: "0", ...env } });
+    let stdout = "";
+    let pending = "";
+    const messages: string[] = [];
+    // Progress redraws its line with \r, so both \r and \n end a line
+    const readLine = (line: string) => {
+      const progress = parseProgressLine(line);
+      if (progress) onProgress?.(progress);
+      else if (line.trim()) messages.push(line.trim());
+    };
+    child.stdout.on("data", (chunk: Buffer) => (stdout += chunk.toString()));
+    child.stderr.on("data", (chunk: Buffer) => {
+      const lines = (pending + chunk.toString()).split(/[\r\n]/);
+      pending = lines.pop() ?? "";
+      lines.forEach(readLine);
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      readLine(pending);
+      if (code === 0) resolve(stdout);
+      else reject(new Error(messages.join("\n") || `git exited with code ${code}`));
+    });
+  });
+}
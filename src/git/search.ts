@@ -0,0 +1,115 @@
+import { execFile } from "node:child_process";
+import type { Commit } from "./types.js";
+
+/**
+ * What a commit search matches against: the full commit message, the author,
+ * a hash prefix, or code changes — `-S` finds commits that change how often a
+ * string occurs, `-G` commits whose diff has a line matching a regex.
+ */
+export type SearchMode = "message" | "author" | "hash" | "pickaxe" | "diffRegex";
+
+export interface CommitSearch {
+  mode: SearchMode;
+  query: string;
+}
+
+/** A commit and its parents, as listed by `git rev-list --parents` */
+export interface CommitLink {
+  hash: string;
+  parents: string[];
+}
+
+export interface SearchResult {
+  // Matching hashes in graph (topo) order
+  order: string[];
+  matches: Set<string>;
+  // The searched history, used to reconnect the matches when only they are shown
+  links: CommitLink[];
+}
+
+/** `git log` options selecting the matching commits. Hash prefixes need none. */
+export function buildSearchArgs(search: CommitSearch): string[] {
+  switch (search.mode) {
+    case "message": return ["--regexp-ignore-case", "--fixed-strings", `--grep=${search.query}`];
+    case "author": return ["--regexp-ignore-case", "--fixed-strings", `--author=${search.query}`];
+    case "pickaxe": return [`-S${search.query}`];
+    case "diffRegex": return [`-G${search.query}`];
+    case "hash": return [];
+  }
+}
+
+export function parseLinks(output: string): CommitLink[] {
+  const links: CommitLink[] = [];
+  for (const line of output.split("\n")) {
+    if (!line) continue;
+    const [hash, ...parents] = line.split(" ");
+    links.push({ hash, parents });
+  }
+  return links;
+}
+
+function git(cwd: string, args: string[], signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile("git", args, { cwd, maxBuffer: 200 * 1024 * 1024, signal }, (err, stdout, stderr) => {
+      if (err) return reject(new Error(stderr || err.message));
+      resolve(stdout);
+    });
+  });
+}
+
+/** The parent links of the whole history reachable from `revisions`, in topo order */
+export async function loadLinks(cwd: string, revisions: string[], signal?: AbortSignal): Promise<CommitLink[]> {
+  return parseLinks(await git(cwd, ["rev-list", "--topo-order", "--parents", ...revisions], signal));
+}
+
+/**
+ * Search the whole history reachable from `revisions` (not just the loaded
+ * pages), so navigation can find matches further down and "show only
+ * matches" can connect them.
+ */
+export async function searchCommits(
+  cwd: string,
+  revisions: string[],
+  search: CommitSearch,
+  signal?: AbortSignal,
+): Promise<SearchResult> {
+  const links = await loadLinks(cwd, revisions, signal);
+  let found: Set<string>;
+  if (search.mode === "hash") {
+    const prefix = search.query.trim().toLowerCase();
+    found = new Set(links.filter((l) => l.hash.startsWith(prefix)).map((l) => l.hash));
+  } else {
+    const output = await git(cwd, ["log", "--format=%H", ...buildSearchArgs(search), ...revisions], signal);
+    found = new Set(output.split("\n").filter(Boolean));
+  }
+  const order = links.filter((l) => found.has(l.hash)).map((l) => l.hash);
+  return { order, matches: new Set(order), links };
+}
+
+/**
+ * Keep only `keep` commits and point each at its nearest kept ancestors, so
+ * the graph stays connected when the commits in between are hidden. `links`
+ * must be in topo order (children before parents); a parent outside them is
+ * left as it is.
+ */
+export function rewriteParents(commits: Commit[], keep: Set<string>, links: CommitLink[]): Commit[] {
+  const known = new Set(links.map((l) => l.hash));
+  // Kept ancestors nearest to each commit (the commit itself when kept),
+  // filled parents-first by walking the topo order backwards
+  const nearest = new Map<string, string[]>();
+  const resolve = (parents: string[]): string[] => {
+    const result = new Set<string>();
+    for (const parent of parents) {
+      for (const hash of known.has(parent) ? nearest.get(parent) ?? [] : [parent]) result.add(hash);
+    }
+    return [...result];
+  };
+  for (let i = links.length - 1; i >= 0; i--) {
+    const { hash, parents } = links[i];
+    nearest.set(hash, keep.has(hash) ? [hash] : resolve(parents));
+  }
+  const parentsOf = new Map(links.map((l) => [l.hash, l.parents]));
+  return commits
+    .filter((c) => keep.has(c.hash))
+    .map((c) => ({ ...c, parents: resolve(parentsOf.get(c.hash) ?? c.parents) }));
+}
@@ -0,0 +1,100 @@
+import { execFile } from "node:child_process";
+import { UNCOMMITTED_HASH, type ChangedFile, type Commit, type FileStatus } from "./types.js";
+
+export interface WorkingTreeStatus {
+  /** Index vs HEAD */
+  staged: ChangedFile[];
+  /** Working tree vs index, including untracked files (as additions) */
+  unstaged: ChangedFile[];
+}
+
+/**
+ * Read `git status` for the working tree. `--no-optional-locks` keeps git from
+ * refreshing the index as a side effect, which would itself look like a
+ * repository change to the auto-refresh trigger.
+ */
+export function getWorkingTreeStatus(cwd: string): Promise<WorkingTreeStatus> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["--no-optional-locks", "status", "--porcelain=v1", "-z", "--untracked-files=all"],
+      { cwd, maxBuffer: 10 * 1024 * 1024 },
+      (err, stdout) => resolve(err ? { staged: [], unstaged: [] } : parseStatusOutput(stdout))
+    );
+  });
+}
+
+/**
+ * Parse `git status --porcelain=v1 -z`. Each entry is "XY path", where X is
+ * the index status and Y the working-tree status; renames and copies are
+ * followed by an extra NUL-terminated field holding the original path.
+ */
+export function parseStatusOutput(output: string): WorkingTreeStatus {
+  const staged: ChangedFile[] = [];
+  const unstaged: ChangedFile[] = [];
+  const entries = output.split("\0");
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) continue;
+    const x = entry[0];
+    const y = entry[1];
+    const path = entry.slice(3);
+
+    if (x === "?" && y === "?") {
+      unstaged.push({ status: "A", path });
+      continue;
+    }
+    if (x === "!") continue;
+    // Unmerged: both sides touched the path
+    if (x === "U" || y === "U" || (x === "A" && y === "A") || (x === "D" && y === "D")) {
+      unstaged.push({ status: "U", path });
+      continue;
+    }
+
+    let oldPath: string | undefined;
+    if (x === "R" || x === "C") oldPath = entries[++i];
+
+    if (x !== " ") {
+      staged.push(oldPath !== undefined
+        ? { status: x as FileStatus, path, oldPath }
+        : { status: x as FileStatus, path });
+    }
+    if (y !== " ") {
+      unstaged.push({ status: y as FileStatus, path });
+    }
+  }
+  return { staged, unstaged };
+}
+
+/**
+ * Paths whose uncommitted changes a hard reset throws away: everything staged
+ * or modified. Untracked files (listed as unstaged additions) survive it.
+ */
+export function filesLostByHardReset(status: WorkingTreeStatus): string[] {
+  const paths = [...status.staged, ...status.unstaged.filter((f) => f.status !== "A")].map((f) => f.path);
+  return [...new Set(paths)].sort();
+}
+
+/**
+ * Synthetic commit for the "Uncommitted changes" row, parented on HEAD so the
+ * layout draws a lane from it down to HEAD's commit.
+ */
+export function createUncommittedCommit(headHash: string, status: WorkingTreeStatus): Commit {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    hash: UNCOMMITTED_HASH,
+    parents: [headHash],
+    author: "",
+    email: "",
+    timestamp: now,
+    mailmapAuthor: "",
+    mailmapEmail: "",
+    committer: "",
+    committerEmail: "",
+    commitTimestamp: now,
+    treeHash: "",
+    subject: `Uncommitted changes (${status.staged.length} staged, ${status.unstaged.length} unstaged)`,
+    refs: [],
+    kind: "uncommitted",
+  };
+}
@@ -0,0 +1,36 @@
+import { execFile } from "node:child_process";
+
+/** What an annotated tag records about itself; lightweight tags have none of it */
+export interface TagInfo {
+  tagger: string;
+  taggerEmail: string;
+  timestamp: number;
+  message: string;
+}
+
+const TAG_FORMAT = ["%(objecttype)", "%(taggername)", "%(taggeremail)", "%(taggerdate:unix)", "%(contents)"].join("%00");
+
+/** Parse `git for-each-ref --format=<TAG_FORMAT>` output for one tag */
+export function parseTagInfo(output: string): TagInfo | undefined {
+  const [type, tagger, email = "", date, ...message] = output.split("\x00");
+  // A lightweight tag points straight at the commit
+  if (type !== "tag") return undefined;
+  return {
+    tagger,
+    taggerEmail: email.replace(/^<|>$/g, ""),
+    timestamp: parseInt(date, 10),
+    message: message.join("\x00").trim(),
+  };
+}
+
+/** The annotation of tag `name`, or undefined for a lightweight (or missing) tag */
+export function loadTagInfo(cwd: string, name: string): Promise<TagInfo | undefined> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["for-each-ref", "--count=1", `--format=${TAG_FORMAT}`, `refs/tags/${name}`],
+      { cwd },
+      (err, stdout) => resolve(err ? undefined : parseTagInfo(stdout))
+    );
+  });
+}
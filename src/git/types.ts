@@ -1,35 +1,137 @@
+export type FileStatus = "A" | "M" | "D" | "R" | "C" | "T" | "U";
+
+export interface ChangedFile {
+  status: FileStatus;
+  path: string;
+  oldPath?: string;
+}
+
+/** Hash of the synthetic "Uncommitted changes" row shown above HEAD */
+export const UNCOMMITTED_HASH = "uncommitted";
+
 export interface Commit {
   hash: string;
   parents: string[];
+  /** Author as recorded in the commit (%an / %ae / %at) */
   author: string;
   email: string;
   timestamp: number;
+  /** Author after .mailmap resolution (%aN / %aE) — what the UI displays */
+  mailmapAuthor: string;
+  mailmapEmail: string;
+  committer: string;
+  committerEmail: string;
+  commitTimestamp: number;
+  /** Abbreviated tree hash (%t) */
+  treeHash: string;
   subject: string;
   refs: Ref[];
+  /**
+   * Rows that aren't ordinary history: the synthetic uncommitted-changes row,
+   * and stash entries (real commits, but shown joined to their base only)
+   */
+  kind?: "uncommitted" | "stash";
+  /** A reflog position that no ref reaches any more — only the reflog keeps it */
+  ghost?: boolean;
 }
 
 export interface Ref {
+  /** Display name: "main", "feature/foo", "origin/main", "v1.0", "HEAD", "HEAD@{2}" */
   name: string;
-  type: "branch" | "tag" | "remote" | "head" | "stash";
+  type: "branch" | "tag" | "remote" | "head" | "stash" | "reflog" | "other";
+  /** Full refname, e.g. "refs/heads/feature/foo" ("HEAD" for HEAD itself) */
+  fullName: string;
+  /** Name without the remote prefix ("main" for "origin/main"); `name` for everything else */
+  shortName: string;
+  /** Remote a remote-tracking ref belongs to */
+  remote?: string;
+  /** False only for remote-tracking refs */
+  isLocal: boolean;
+  /** How a local branch stands against its upstream, when it has one */
+  tracking?: Tracking;
+}
+
+export interface Tracking {
+  /** Short name of the upstream, e.g. "origin/main" */
+  upstream: string;
+  /** Commits only on the branch, and only on the upstream */
+  ahead: number;
+  behind: number;
+  /** The upstream branch no longer exists, e.g. after a fetch with prune */
+  gone: boolean;
+}
+
+/**
+ * True for the commit HEAD is on, given `currentBranch` as read by
+ * `git rev-parse --abbrev-ref HEAD`: the branch's commit, or — when HEAD is
+ * detached and that reads "HEAD" — the commit decorated with HEAD itself.
+ */
+export function isCurrentCommit(commit: Commit, currentBranch: string): boolean {
+  if (currentBranch === "HEAD") return commit.refs.some((r) => r.type === "head");
+  return commit.refs.some((r) => r.type === "branch" && r.name === currentBranch);
+}
+
+/** Badge text: the name, plus the upstream status of a tracking branch ("main ↑2 ↓5", "topic [gone]") */
+export function refLabel(ref: Ref): string {
+  const tracking = ref.tracking;
+  if (!tracking) return ref.name;
+  if (tracking.gone) return `${ref.name} [gone]`;
+  const counts = [tracking.ahead ? `↑${tracking.ahead}` : "", tracking.behind ? `↓${tracking.behind}` : ""];
+  return [ref.name, ...counts.filter(Boolean)].join(" ");
+}
+
+/**
+ * Build a Ref from a full refname. `remotes` disambiguates remote names that
+ * themselves contain a slash; without a match the first path segment is used.
+ */
+export function refFromFullName(fullName: string, remotes: string[] = []): Ref {
+  if (fullName === "HEAD") {
+    return { name: "HEAD", type: "head", fullName, shortName: "HEAD", isLocal: true };
+  }
+  if (fullName.startsWith("refs/heads/")) {
+    const name = fullName.slice("refs/heads/".length);
+    return { name, type: "branch", fullName, shortName: name, isLocal: true };
+  }
+  if (fullName.startsWith("refs/tags/")) {
+    const name = fullName.slice("refs/tags/".length);
+    return { name, type: "tag", fullName, shortName: name, isLocal: true };
+  }
+  if (fullName.startsWith("refs/remotes/")) {
+    const name = fullName.slice("refs/remotes/".length);
+    // Longest matching remote wins, so "corp/eu" beats "corp" for "corp/eu/main"
+    const remote = remotes
+      .filter((r) => name.startsWith(`${r}/`))
+      .sort((a, b) => b.length - a.length)[0]
+      ?? name.split("/")[0];
+    return { name, type: "remote", fullName, shortName: name.slice(remote.length + 1), remote, isLocal: false };
+  }
+  if (fullName === "refs/stash") {
+    return { name: "stash", type: "stash", fullName, shortName: "stash", isLocal: true };
+  }
+  // Anything else (refs/pull/..., refs/replace/...) — read-only, shown without "refs/"
+  const name = fullName.replace(/^refs\//, "");
+  return { name, type: "other", fullName, shortName: name, isLocal: true };
 }
 
-export function parseRefs(raw: string): Ref[] {
+/**
+ * Parse a `%D` decoration string produced with `--decorate=full`, e.g.
+ * "HEAD -> refs/heads/main, refs/remotes/origin/main, tag: refs/tags/v1.0".
+ * Symbolic remote HEADs (refs/remotes/origin/HEAD) are left out, as in
+ * listRefs: they aren't branches to check out or merge.
+ */
+export function parseRefs(raw: string, remotes: string[] = []): Ref[] {
   if (!raw.trim()) return [];
   const refs: Ref[] = [];
   for (const r of raw.split(",")) {
     const name = r.trim();
-    if (!name) continue;
+    if (!name || /^refs\/remotes\/.+\/HEAD$/.test(name)) continue;
     if (name.startsWith("HEAD -> ")) {
-      refs.push({ name: "HEAD", type: "head" });
-      refs.push({ name: name.slice(8), type: "branch" });
-    } else if (name === "HEAD") {
-      refs.push({ name, type: "head" });
+      refs.push(refFromFullName("HEAD"));
+      refs.push(refFromFullName(name.slice(8), remotes));
     } else if (name.startsWith("tag: ")) {
-      refs.push({ name: name.slice(5), type: "tag" });
-    } else if (name.includes("/")) {
-      refs.push({ name, type: "remote" });
+      refs.push(refFromFullName(name.slice(5), remotes));
     } else {
-      refs.push({ name, type: "branch" });
+      refs.push(refFromFullName(name, remotes));
     }
   }
   return refs;
@@ -0,0 +1,88 @@
+import { execFile } from "node:child_process";
+
+/**
+ * An operation done from the graph that Undo can reverse. `ref` is the
+ * branch that moved, or "HEAD" when it was detached, and `before` the commit
+ * it was on before the operation.
+ */
+export type UndoRecord =
+  | { kind: "checkout" }
+  | { kind: "reset" | "merge" | "rebase"; ref: string; before: string }
+  | { kind: "deleteBranch"; branch: string; tip: string };
+
+/** One reflog entry, newest first */
+export interface ReflogEntry {
+  hash: string;
+  message: string;
+}
+
+/** How to reverse an UndoRecord */
+export interface UndoPlan {
+  args: string[];
+  // What was undone, for the notification: "Undid the rebase of main"
+  description: string;
+}
+
+// The reflog message each operation leaves as the ref's newest entry. A
+// merge or rebase that stopped for conflicts is finished by a commit or
+// `rebase --continue`, which log their own messages.
+const REFLOG_MESSAGES: Record<"checkout" | "reset" | "merge" | "rebase", RegExp> = {
+  checkout: /^checkout: moving from /,
+  reset: /^reset: moving to /,
+  merge: /^(merge |commit \(merge\): )/,
+  rebase: /^rebase( -i)? \(finish\)/,
+};
+
+/** The ref whose reflog shows the operation, if it has one */
+export function undoReflogRef(record: UndoRecord): string | undefined {
+  if (record.kind === "checkout") return "HEAD";
+  if (record.kind === "deleteBranch") return undefined;
+  return record.ref === "HEAD" ? "HEAD" : `refs/heads/${record.ref}`;
+}
+
+/**
+ * Plan how to reverse `record`, using the newest two entries of the reflog of
+ * undoReflogRef(). Throws when the reflog shows something else happened
+ * since — or the operation never completed — so nothing unrelated is undone.
+ */
+export function planUndo(record: UndoRecord, entries: ReflogEntry[]): UndoPlan {
+  if (record.kind === "deleteBranch") {
+    return { args: ["branch", record.branch, record.tip], description: `Restored branch ${record.branch} at ${record.tip.slice(0, 8)}` };
+  }
+  const [latest, previous] = entries;
+  const where = record.kind === "checkout" ? "HEAD" : record.ref;
+  if (!latest || !REFLOG_MESSAGES[record.kind].test(latest.message)) {
+    throw new Error(`${where} has changed since the ${record.kind} (its reflog now reads "${latest?.message ?? ""}")`);
+  }
+  if (record.kind === "checkout") {
+    // "checkout: moving from <branch or hash> to <branch or hash>" — neither can contain a space
+    const from = /^checkout: moving from (\S+) to /.exec(latest.message)?.[1] ?? "";
+    if (/^[0-9a-f]{40}$/.test(from)) {
+      return { args: ["checkout", "--detach", from], description: `Checked out ${from.slice(0, 8)} again` };
+    }
+    return { args: ["checkout", from], description: `Checked out ${from} again` };
+  }
+  if (previous?.hash !== record.before) {
+    throw new Error(`${where} has changed since the ${record.kind}`);
+  }
+  // --keep refuses to throw away uncommitted changes to the files it would touch
+  return {
+    args: ["reset", "--keep", record.before],
+    description: `Undid the ${record.kind} of ${where}, back at ${record.before.slice(0, 8)}`,
+  };
+}
+
+/** The newest `count` reflog entries of `ref` */
+export function loadReflogEntries(cwd: string, ref: string, count = 2): Promise<ReflogEntry[]> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["log", "--walk-reflogs", `--max-count=${count}`, "--format=%H%x00%gs", ref],
+      { cwd },
+      (err, stdout) => resolve(err ? [] : stdout.split("\n").filter(Boolean).map((line) => {
+        const [hash, message] = line.split("\x00");
+        return { hash, message };
+      }))
+    );
+  });
+}
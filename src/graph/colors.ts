@@ -0,0 +1,103 @@
+import { matchGlob } from "../git/filter.js";
+import type { Ref } from "../git/types.js";
+import { BRANCH_COLORS } from "./types.js";
+
+/** A fixed colour for the refs matching `pattern` ("main", "release/*") */
+export interface BranchColorRule {
+  pattern: string;
+  color: string;
+}
+
+/**
+ * Rules from the `boomergit.branchColors` setting, in the order written.
+ * Values that aren't hex colours ("#e57373", "#f80") are skipped.
+ */
+export function parseBranchColors(setting: Record<string, unknown>): BranchColorRule[] {
+  const rules: BranchColorRule[] = [];
+  for (const [pattern, value] of Object.entries(setting)) {
+    if (typeof value !== "string") continue;
+    const hex = value.trim();
+    if (/^#[0-9a-f]{6}$/i.test(hex)) rules.push({ pattern, color: hex });
+    // Expanded, since badge text picks black or white from the RRGGBB channels
+    else if (/^#[0-9a-f]{3}$/i.test(hex)) rules.push({ pattern, color: `#${[...hex.slice(1)].map((c) => c + c).join("")}` });
+  }
+  return rules;
+}
+
+/** Of a commit's `refs`, the one that names a lane starting at it: a branch, else a remote branch, else a tag */
+export function laneRef(refs: Ref[]): Ref | undefined {
+  return refs.find((r) => r.type === "branch")
+    ?? refs.find((r) => r.type === "remote")
+    ?? refs.find((r) => r.type === "tag");
+}
+
+/**
+ * Colour for `ref`: the first rule matching its name, else one picked by
+ * hashing its name. Remote branches go by the name without the remote, so
+ * `origin/main` shares the colour of `main`.
+ */
+export function refColor(ref: Ref, rules: BranchColorRule[]): string {
+  const rule = rules.find((r) => matchGlob(r.pattern, ref.name) || matchGlob(r.pattern, ref.shortName));
+  return rule?.color ?? hashColor(ref.shortName);
+}
+
+/** A palette colour picked by hashing `key` (FNV-1a), the same on every run */
+export function hashColor(key: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return BRANCH_COLORS[(hash >>> 0) % BRANCH_COLORS.length];
+}
+
+/** The kinds of colour theme VS Code has, which the graph is drawn for */
+export type GraphTheme = "dark" | "light" | "highContrast" | "highContrastLight";
+
+/** Colours a graph tile is drawn with on one kind of theme */
+export interface GraphPalette {
+  /** Stands in for BRANCH_COLORS, entry for entry */
+  branches: string[];
+  /** The editor background, behind line shadows and dot outlines */
+  background: string;
+  /** The "+N" count of folded lanes */
+  overflow: string;
+}
+
+export const GRAPH_PALETTES: Record<GraphTheme, GraphPalette> = {
+  dark: { branches: BRANCH_COLORS, background: "#1e1e1e", overflow: "#9e9e9e" },
+  // Darker shades of the same hues, readable on white
+  light: {
+    branches: [
+      "#C77700", "#0277BD", "#2E7D32", "#C62828", "#7B1FA2", "#A67C00",
+      "#00838F", "#D84315", "#6D4C41", "#546E7A", "#558B2F", "#303F9F",
+    ],
+    background: "#ffffff",
+    overflow: "#6e6e6e",
+  },
+  highContrast: {
+    branches: [
+      "#FFB000", "#00BFFF", "#00E676", "#FF5252", "#E040FB", "#FFEA00",
+      "#18FFFF", "#FF6E40", "#D7CCC8", "#CFD8DC", "#B2FF59", "#8C9EFF",
+    ],
+    background: "#000000",
+    overflow: "#ffffff",
+  },
+  highContrastLight: {
+    branches: [
+      "#A35200", "#004C8C", "#1B5E20", "#B71C1C", "#4A148C", "#7A5C00",
+      "#006064", "#BF360C", "#3E2723", "#37474F", "#33691E", "#1A237E",
+    ],
+    background: "#ffffff",
+    overflow: "#000000",
+  },
+};
+
+/**
+ * A lane colour as drawn on `theme`: palette colours are swapped for the
+ * theme's shade of them, colours from `boomergit.branchColors` are kept.
+ */
+export function themedColor(color: string, theme: GraphTheme): string {
+  const i = BRANCH_COLORS.indexOf(color);
+  return i >= 0 ? GRAPH_PALETTES[theme].branches[i] : color;
+}
@@ -1,44 +1,193 @@
-import type { Commit } from "../git/types.js";
-import { BRANCH_COLORS, type GraphRow, type Segment } from "./types.js";
+import type { Commit, Ref } from "../git/types.js";
+import { hashColor, laneRef, refColor, type BranchColorRule } from "./colors.js";
+import type { GraphRow, Segment } from "./types.js";
 
-interface LaneEntry {
+export interface LaneEntry {
   hash: string;
   color: string;
+  /** Lane leads down from a synthetic row rather than a real commit */
+  dashed?: boolean;
+  /**
+   * A pinned lane's column while nothing is drawn in it: before its tip is
+   * reached (`hash` is the tip), or after its chain ended (`hash` is "")
+   */
+  reserved?: boolean;
 }
 
-export function computeGraphLayout(commits: Commit[]): GraphRow[] {
-  const lanes: (LaneEntry | null)[] = [];
+/**
+ * Lane state at the bottom of the last laid-out row. Passing the same state
+ * to successive calls lets a later page of commits continue the graph where
+ * the previous page stopped instead of starting over with empty lanes.
+ */
+export interface LayoutState {
+  lanes: (LaneEntry | null)[];
+  // Configured colours for matching ref names, kept for every page
+  colorRules: BranchColorRule[];
+  // Lanes 0..pinnedLanes-1 belong to the pinned tips, in order
+  pinnedLanes: number;
+  // Refs by the commit they point at, so a lane heading for a commit on a
+  // later page is coloured like that commit's badge will be
+  refTips: Map<string, Ref[]>;
+}
+
+/**
+ * `pinnedTips` are the commits whose first-parent chains keep the leftmost
+ * lanes, in that order — typically HEAD's, then pinned branches'. Each must
+ * be a commit the graph shows, or its lane stays empty. `refTips` are the
+ * repository's refs by commit (see loadRefTips).
+ */
+export function createLayoutState(
+  colorRules: BranchColorRule[] = [],
+  pinnedTips: string[] = [],
+  refTips: Map<string, Ref[]> = new Map(),
+): LayoutState {
+  const lanes = [...new Set(pinnedTips)].map((hash): LaneEntry => ({ hash, color: "", reserved: true }));
+  return { lanes, colorRules, pinnedLanes: lanes.length, refTips };
+}
+
+/**
+ * Lay out `commits` (topo-ordered) into graph rows. `state` is updated in
+ * place, so the next page can be laid out by calling again with it.
+ *
+ * Finding the lanes heading for a commit or parent is an O(1) lookup in an
+ * index by hash, and finding a free lane an O(log n) pop from a min-heap of
+ * free lanes; both are rebuilt from `state.lanes` on each call. Each row
+ * still passes over every open lane, though: to draw their pass-through
+ * segments and, when a lane ended, to move the lanes right of it left.
+ *
+ * Lanes are compacted as they end: the lanes to the right of one that ended
+ * curve one column left in the same row, so the graph is only as wide as the
+ * lanes still open.
+ *
+ * A lane's colour comes from the ref on the commit it starts out heading for
+ * (see laneRef), or from that commit's hash when it has none, so colours
+ * don't shift when commits are added above or the graph is refreshed.
+ *
+ * Pinned lanes are reserved from the first row. A pinned tip's chain runs
+ * down its own lane, since a commit goes in the lowest lane heading for it
+ * and every other lane is to the right. When the chain ends, its column
+ * stays reserved until the pinned lanes right of it have ended too, so
+ * pinned lanes never move.
+ */
+export function computeGraphLayout(commits: Commit[], state: LayoutState = createLayoutState()): GraphRow[] {
+  const lanes = state.lanes;
   const rows: GraphRow[] = [];
-  let colorIdx = 0;
+  // This page's commits, to colour a lane by the refs of the commit it leads to
+  const byHash = new Map(commits.map((c) => [c.hash, c]));
+
+  // Hash → ascending indices of the lanes heading for it
+  const lanesByHash = new Map<string, number[]>();
+  // Min-heap of indices that may be free. Indices are left in it when their
+  // lane is taken or trimmed off, and skipped when popped, so it holds every
+  // free index.
+  const freeLanes: number[] = [];
+  // Each lane's value at the top edge of the row it last changed in, by row
+  // number: the pass-through loop reads these for every lane, so plain arrays
+  const topValues: (LaneEntry | null)[] = [];
+  const changedInRow: number[] = [];
+  let rowNumber = 0;
+  // Lanes freed in the current row since its top edge
+  const endedLanes: number[] = [];
 
-  function nextColor(): string {
-    const c = BRANCH_COLORS[colorIdx % BRANCH_COLORS.length];
-    colorIdx++;
-    return c;
+  for (let i = 0; i < lanes.length; i++) {
+    const lane = lanes[i];
+    if (lane) addToIndex(lane.hash, i);
+    else freeLanes.push(i); // ascending, so already a heap
   }
 
-  function findFreeLane(...excludeIndices: number[]): number {
-    for (let i = 0; i < lanes.length; i++) {
-      if (lanes[i] === null && !excludeIndices.includes(i)) return i;
+  function addToIndex(hash: string, lane: number): void {
+    const list = lanesByHash.get(hash);
+    if (!list) {
+      lanesByHash.set(hash, [lane]);
+      return;
+    }
+    let at = list.length;
+    while (at > 0 && list[at - 1] > lane) at--;
+    list.splice(at, 0, lane);
+  }
+
+  function removeFromIndex(hash: string, lane: number): void {
+    const list = lanesByHash.get(hash)!;
+    if (list.length === 1) lanesByHash.delete(hash);
+    else list.splice(list.indexOf(lane), 1);
+  }
+
+  /** Point lane `i` at a hash, or free it; the only way lanes change */
+  function setLane(i: number, entry: LaneEntry | null): void {
+    // An ended pinned lane keeps its column
+    if (!entry && i < state.pinnedLanes) entry = { hash: "", color: "", reserved: true };
+    const old = lanes[i];
+    if (changedInRow[i] !== rowNumber) {
+      changedInRow[i] = rowNumber;
+      topValues[i] = old;
     }
+    if (old) removeFromIndex(old.hash, i);
+    lanes[i] = entry;
+    if (entry) {
+      addToIndex(entry.hash, i);
+    } else {
+      heapPush(freeLanes, i);
+      endedLanes.push(i);
+    }
+  }
+
+  /**
+   * Move every lane from `from` on left over the free lanes among them. The
+   * lanes keep their order, so the index lists stay sorted.
+   */
+  function closeGaps(from: number): void {
+    let to = from;
+    for (let i = from; i < lanes.length; i++) {
+      const lane = lanes[i];
+      if (!lane) continue;
+      if (i !== to) {
+        const list = lanesByHash.get(lane.hash)!;
+        list[list.indexOf(i)] = to;
+        lanes[to] = lane;
+      }
+      to++;
+    }
+    // The free lanes now past the end are left in the heap, skipped when popped
+    lanes.length = to;
+  }
+
+  /** Colour of a lane starting out for `hash` */
+  function laneColor(hash: string): string {
+    // A commit on a later page isn't in byHash yet
+    const refs = byHash.get(hash)?.refs ?? state.refTips.get(hash);
+    const ref = refs && laneRef(refs);
+    return ref ? refColor(ref, state.colorRules) : hashColor(hash);
+  }
+
+  /** The lowest free lane other than `exclude`, or a new one on the right */
+  function findFreeLane(exclude = -1): number {
+    const skipped: number[] = [];
+    let found = -1;
+    while (freeLanes.length > 0) {
+      const i = heapPop(freeLanes);
+      if (lanes[i] !== null) continue; // taken or trimmed off since it was freed
+      if (i === exclude) { skipped.push(i); continue; }
+      found = i;
+      break;
+    }
+    for (const i of skipped) heapPush(freeLanes, i);
+    if (found >= 0) return found;
     lanes.push(null);
     return lanes.length - 1;
   }
 
   function findLane(hash: string, exclude = -1): number {
-    for (let i = 0; i < lanes.length; i++) {
-      if (i !== exclude && lanes[i]?.hash === hash) return i;
-    }
-    return -1;
+    return lanesByHash.get(hash)?.find((i) => i !== exclude) ?? -1;
   }
 
   /** Find ALL lanes carrying the given hash */
   function findAllLanes(hash: string): number[] {
-    const result: number[] = [];
-    for (let i = 0; i < lanes.length; i++) {
-      if (lanes[i]?.hash === hash) result.push(i);
-    }
-    return result;
+    return [...(lanesByHash.get(hash) ?? [])];
+  }
+
+  /** Lane `i` as it was at the top edge of the current row */
+  function topLane(i: number): LaneEntry | null | undefined {
+    return changedInRow[i] === rowNumber ? topValues[i] : lanes[i];
   }
 
   for (const commit of commits) {
@@ -49,99 +198,141 @@ export function computeGraphLayout(commits: Commit[]): GraphRow[] {
     let commitLane: number;
     let convergingLanes: number[];
     const isNewTip = matchingLanes.length === 0;
+    const isUncommitted = commit.kind === "uncommitted";
 
     if (isNewTip) {
-      commitLane = findFreeLane();
-      lanes[commitLane] = { hash: commit.hash, color: nextColor() };
+      // Uncommitted changes and stashes lead into their base commit's lane,
+      // so they take the colour that lane has or will have
+      const base = commit.kind ? commit.parents[0] : undefined;
+      const baseLane = base ? findLane(base) : -1;
+      const baseReserved = baseLane >= 0 && !!lanes[baseLane]!.reserved;
+      // Uncommitted changes sit at the top of HEAD's pinned lane
+      commitLane = isUncommitted && baseReserved ? baseLane : findFreeLane();
+      const color = baseLane >= 0 && !baseReserved ? lanes[baseLane]!.color : laneColor(base ?? commit.hash);
+      setLane(commitLane, { hash: commit.hash, color });
       convergingLanes = [];
     } else {
       commitLane = matchingLanes[0];
       convergingLanes = matchingLanes.slice(1);
     }
 
+    // A pinned tip starts its lane here, like a new tip
+    const startsLane = isNewTip || !!lanes[commitLane]!.reserved;
+    if (!isNewTip && startsLane) {
+      setLane(commitLane, { hash: commit.hash, color: laneColor(commit.hash) });
+    }
     const commitColor = lanes[commitLane]!.color;
-    const topLanes = lanes.map((l) => (l ? { ...l } : null));
+    const arrivesDashed = !startsLane && !!lanes[commitLane]!.dashed;
+    // The row's top edge: from here on, topLane() sees the lanes as they are now
+    rowNumber++;
+    endedLanes.length = 0;
 
     // Free converging lanes — they've reached their target commit
     for (const cl of convergingLanes) {
-      lanes[cl] = null;
+      setLane(cl, null);
     }
 
     // ─── Process parents ───
     const forks: { lane: number; color: string }[] = [];
-    const merges: { lane: number; color: string }[] = [];
+    const merges: { lane: number; color: string; dashed?: boolean }[] = [];
     let commitLaneContinues = false;
 
     if (commit.parents.length === 0) {
-      lanes[commitLane] = null;
+      setLane(commitLane, null);
     } else {
       // First parent always continues in the commit lane.
       // Never transition to another lane — that causes branches to collapse
       // into each other instead of running independently down to their parent.
-      lanes[commitLane] = { hash: commit.parents[0], color: commitColor };
+      setLane(commitLane, isUncommitted
+        ? { hash: commit.parents[0], color: commitColor, dashed: true }
+        : { hash: commit.parents[0], color: commitColor });
       commitLaneContinues = true;
 
       for (let pi = 1; pi < commit.parents.length; pi++) {
         const parentHash = commit.parents[pi];
         const existing = findLane(parentHash, commitLane);
 
-        if (existing >= 0) {
-          merges.push({ lane: existing, color: lanes[existing]!.color });
+        if (existing >= 0 && !lanes[existing]!.reserved) {
+          merges.push({ lane: existing, color: lanes[existing]!.color, dashed: lanes[existing]!.dashed });
         } else {
-          const nl = findFreeLane(commitLane);
-          const nc = nextColor();
-          lanes[nl] = { hash: parentHash, color: nc };
+          // A pinned tip's lane starts here when this commit merges it
+          const nl = existing >= 0 ? existing : findFreeLane(commitLane);
+          const nc = laneColor(parentHash);
+          setLane(nl, { hash: parentHash, color: nc });
           forks.push({ lane: nl, color: nc });
         }
       }
     }
 
-    const botLanes = lanes.map((l) => (l ? { ...l } : null));
+    // ─── Compaction ───
+    // Lanes that ended here leave gaps, closed at the bottom edge by moving
+    // the lanes right of them left. All of them are at or right of the commit
+    // lane, so the commit lane itself never moves. Free lanes on the right
+    // are simply dropped. Ended pinned lanes are let go once no pinned lane
+    // right of them is left.
+    while (state.pinnedLanes > 0 && lanes[state.pinnedLanes - 1]!.reserved && !lanes[state.pinnedLanes - 1]!.hash) {
+      state.pinnedLanes--;
+      setLane(state.pinnedLanes, null);
+    }
+    while (lanes.length > 0 && lanes[lanes.length - 1] === null) lanes.pop();
+    const gaps = endedLanes.filter((i) => i < lanes.length && lanes[i] === null).sort((a, b) => a - b);
+    /** Column of lane `i` at the bottom edge */
+    const botCol = (i: number): number => {
+      let shift = 0;
+      while (shift < gaps.length && gaps[shift] < i) shift++;
+      return i - shift;
+    };
 
     // ─── Build segments ───
     const segments: Segment[] = [];
-    const maxLen = Math.max(topLanes.length, botLanes.length);
 
-    // A) Pass-through lanes (non-commit lanes that continue)
-    for (let i = 0; i < maxLen; i++) {
+    // A) Pass-through lanes (non-commit lanes that continue). Every lane that
+    //    continues below is within `lanes`, even after the trim above.
+    //    Reserved lanes draw nothing.
+    for (let i = 0; i < lanes.length; i++) {
       if (i === commitLane) continue;
-      const top = topLanes[i];
-      const bot = botLanes[i];
-      if (top && bot) {
-        segments.push({ topCol: i, botCol: i, color: top.color });
+      const top = topLane(i);
+      const bot = lanes[i];
+      if (top && bot && !top.reserved && !bot.reserved) {
+        segments.push(withDash({ topCol: i, botCol: botCol(i), color: top.color }, top.dashed));
       }
     }
 
     // B) Convergence: other lanes that were also targeting this commit.
     //    These draw curves from their column to the commit column.
     for (const cl of convergingLanes) {
-      const clColor = topLanes[cl]?.color ?? commitColor;
-      segments.push({ topCol: cl, botCol: commitLane, color: clColor });
+      const clTop = topLane(cl);
+      if (clTop?.reserved) continue;
+      segments.push(withDash({ topCol: cl, botCol: commitLane, color: clTop?.color ?? commitColor }, clTop?.dashed));
     }
 
     // C) Commit lane
     if (commitLaneContinues) {
-      if (isNewTip) {
+      if (startsLane) {
+        segments.push(withDash({ topCol: commitLane, botCol: commitLane, color: commitColor, half: "bottom" }, isUncommitted));
+      } else if (arrivesDashed) {
+        // Dashed link arriving from the uncommitted row; history continues solid below
+        segments.push({ topCol: commitLane, botCol: commitLane, color: commitColor, half: "top", dashed: true });
         segments.push({ topCol: commitLane, botCol: commitLane, color: commitColor, half: "bottom" });
       } else {
         segments.push({ topCol: commitLane, botCol: commitLane, color: commitColor });
       }
     } else if (commit.parents.length === 0) {
-      if (isNewTip) {
+      if (startsLane) {
         segments.push({ topCol: commitLane, botCol: commitLane, color: commitColor });
       } else {
-        segments.push({ topCol: commitLane, botCol: commitLane, color: commitColor, half: "top" });
+        segments.push(withDash({ topCol: commitLane, botCol: commitLane, color: commitColor, half: "top" }, arrivesDashed));
       }
     }
 
     // D) Fork curves: from the commit dot down to new lanes (bottom half)
     for (const fork of forks) {
-      segments.push({ topCol: commitLane, botCol: fork.lane, color: fork.color, half: "bottom" });
+      segments.push({ topCol: commitLane, botCol: botCol(fork.lane), color: fork.color, half: "bottom" });
     }
 
     // E) Merge curves: from existing lanes toward the commit lane (full height)
     for (const merge of merges) {
-      segments.push({ topCol: merge.lane, botCol: commitLane, color: merge.color });
+      segments.push(withDash({ topCol: merge.lane, botCol: commitLane, color: merge.color }, merge.dashed));
     }
 
     // Compute column count
@@ -151,14 +342,54 @@ export function computeGraphLayout(commits: Commit[]): GraphRow[] {
       if (seg.botCol > maxCol) maxCol = seg.botCol;
     }
 
-    rows.push({
+    const row: GraphRow = {
       commitHash: commit.hash,
       commitCol: commitLane,
       commitColor,
       segments,
       numCols: maxCol + 1,
-    });
+    };
+    if (isUncommitted) row.dot = "hollow";
+    else if (commit.kind === "stash") row.dot = "square";
+    else if (commit.ghost) row.dot = "ghost";
+    rows.push(row);
+
+    if (gaps.length > 0) closeGaps(gaps[0]);
   }
 
   return rows;
 }
+
+function heapPush(heap: number[], value: number): void {
+  let i = heap.push(value) - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent] <= value) break;
+    heap[i] = heap[parent];
+    i = parent;
+  }
+  heap[i] = value;
+}
+
+function heapPop(heap: number[]): number {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    let i = 0;
+    for (;;) {
+      let child = 2 * i + 1;
+      if (child >= heap.length) break;
+      if (child + 1 < heap.length && heap[child + 1] < heap[child]) child++;
+      if (heap[child] >= last) break;
+      heap[i] = heap[child];
+      i = child;
+    }
+    heap[i] = last;
+  }
+  return top;
+}
+
+/** Mark a segment dashed only when needed, so solid segments stay plain objects */
+function withDash(seg: Segment, dashed: boolean | undefined): Segment {
+  return dashed ? { ...seg, dashed: true } : seg;
+}
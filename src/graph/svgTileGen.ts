@@ -1,6 +1,7 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import type { GraphRow } from "./types.js";
+import { GRAPH_PALETTES, themedColor, type GraphTheme } from "./colors.js";
 
 // Grid dimensions
 export const COL_WIDTH = 20;
@@ -9,7 +10,7 @@ export const DOT_RADIUS = 5;
 export const LINE_WIDTH = 2.5;
 const SHADOW_WIDTH = 5;
 const SHADOW_OPACITY = 0.75;
-const BG_COLOR = "#1e1e1e";
+const DASH_ARRAY = "3 3";
 
 export class SvgTileCache {
   private cacheDir: string;
@@ -20,13 +21,13 @@ export class SvgTileCache {
     fs.mkdirSync(this.cacheDir, { recursive: true });
   }
 
-  getTilePath(row: GraphRow, rowHeight: number = ROW_HEIGHT, maxCols?: number): string {
+  getTilePath(row: GraphRow, rowHeight: number = ROW_HEIGHT, maxCols?: number, maxLanes = Infinity, theme: GraphTheme = "dark"): string {
     const cols = maxCols ?? row.numCols;
-    const key = this.buildKey(row, rowHeight, cols);
+    const key = this.buildKey(row, rowHeight, cols, maxLanes, theme);
     const cached = this.cache.get(key);
     if (cached) return cached;
 
-    const svg = renderSvg(row, rowHeight, cols);
+    const svg = renderSvg(row, rowHeight, cols, maxLanes, theme);
     const filePath = path.join(this.cacheDir, `${key}.svg`);
     fs.writeFileSync(filePath, svg, "utf-8");
     this.cache.set(key, filePath);
@@ -42,11 +43,11 @@ export class SvgTileCache {
     }
   }
 
-  private buildKey(row: GraphRow, rowHeight: number, maxCols: number): string {
-    const parts: string[] = [`c${row.commitCol}:${row.commitColor.replace("#", "")}:h${rowHeight}:w${maxCols}`];
+  private buildKey(row: GraphRow, rowHeight: number, maxCols: number, maxLanes: number, theme: GraphTheme): string {
+    const parts: string[] = [`c${row.commitCol}:${row.commitColor.replace("#", "")}:h${rowHeight}:w${maxCols}:l${maxLanes}:${theme}:${row.dot ?? ""}`];
     for (const seg of row.segments) {
       const h = seg.half === "top" ? "T" : seg.half === "bottom" ? "B" : "F";
-      parts.push(`${h}${seg.topCol}-${seg.botCol}:${seg.color.replace("#", "")}`);
+      parts.push(`${h}${seg.topCol}-${seg.botCol}:${seg.color.replace("#", "")}${seg.dashed ? ":d" : ""}`);
     }
     let hash = 0;
     const str = parts.join("_");
@@ -86,17 +87,42 @@ function segmentPath(x0: number, y0: number, x1: number, y1: number, cpFactor: n
  * - "bottom": bottom half only (midY → ROW_HEIGHT) — forks leaving the commit dot
  *
  * This ensures fork/merge curves connect directly to the commit dot.
+ * Dashed segments (the uncommitted-changes link) use butt caps so the dash
+ * gaps stay visible. A hollow dot marks the uncommitted row, a square a stash,
+ * and a faded dashed ring a reflog position nothing else reaches.
+ *
+ * Lanes from `maxLanes` on fold into one overflow column: lines to them end
+ * there, a commit in one of them is drawn there, and a "+N" beside it counts
+ * the lanes hidden in the row. `maxCols` should leave room for that column.
+ *
+ * `theme` picks the palette: lane colours, and the background that line
+ * shadows and dot outlines separate them from.
  */
-export function renderSvg(row: GraphRow, rowHeight: number = ROW_HEIGHT, maxCols?: number): string {
+export function renderSvg(
+  row: GraphRow, rowHeight: number = ROW_HEIGHT, maxCols?: number, maxLanes = Infinity, theme: GraphTheme = "dark"
+): string {
+  const palette = GRAPH_PALETTES[theme];
+  const bg = palette.background;
+  const commitColor = themedColor(row.commitColor, theme);
   const cols = maxCols ?? row.numCols;
   const width = cols * COL_WIDTH + COL_WIDTH;
   const midY = rowHeight / 2;
   const shadows: string[] = [];
   const lines: string[] = [];
+  const hidden = new Set<number>();
+  const fold = (col: number): number => {
+    if (col < maxLanes) return col;
+    hidden.add(col);
+    return maxLanes;
+  };
 
   for (const seg of row.segments) {
-    const xTop = colX(seg.topCol);
-    const xBot = colX(seg.botCol);
+    const topCol = fold(seg.topCol);
+    const botCol = fold(seg.botCol);
+    // Runs between hidden lanes only
+    if (topCol === maxLanes && botCol === maxLanes) continue;
+    const xTop = colX(topCol);
+    const xBot = colX(botCol);
 
     let y0: number, y1: number;
     if (seg.half === "top") {
@@ -115,23 +141,36 @@ export function renderSvg(row: GraphRow, rowHeight: number = ROW_HEIGHT, maxCols
     const isFullHeightCurve = !seg.half && xTop !== xBot;
     const d = segmentPath(xTop, y0, xBot, y1, isFullHeightCurve ? 0.35 : 0.5);
 
+    const dash = seg.dashed ? ` stroke-dasharray="${DASH_ARRAY}"` : "";
+    const cap = seg.dashed ? "butt" : "round";
     shadows.push(
-      `<path d="${d}" fill="none" stroke="${BG_COLOR}" stroke-width="${SHADOW_WIDTH}" stroke-opacity="${SHADOW_OPACITY}" stroke-linecap="round"/>`
+      `<path d="${d}" fill="none" stroke="${bg}" stroke-width="${SHADOW_WIDTH}" stroke-opacity="${SHADOW_OPACITY}" stroke-linecap="${cap}"${dash}/>`
     );
     lines.push(
-      `<path d="${d}" fill="none" stroke="${seg.color}" stroke-width="${LINE_WIDTH}" stroke-linecap="round"/>`
+      `<path d="${d}" fill="none" stroke="${themedColor(seg.color, theme)}" stroke-width="${LINE_WIDTH}" stroke-linecap="${cap}"${dash}/>`
     );
   }
 
   // Commit dot (on top of everything)
-  const cx = colX(row.commitCol);
-  const dot = `<circle cx="${cx}" cy="${midY}" r="${DOT_RADIUS}" fill="${row.commitColor}" stroke="${BG_COLOR}" stroke-width="1.5" stroke-opacity="${SHADOW_OPACITY}"/>`;
+  const cx = colX(fold(row.commitCol));
+  const side = DOT_RADIUS * 1.8;
+  const dot = row.dot === "hollow"
+    ? `<circle cx="${cx}" cy="${midY}" r="${DOT_RADIUS - 1}" fill="${bg}" stroke="${commitColor}" stroke-width="2"/>`
+    : row.dot === "ghost"
+    ? `<circle cx="${cx}" cy="${midY}" r="${DOT_RADIUS - 1}" fill="${bg}" stroke="${commitColor}" stroke-width="2" stroke-dasharray="2 1.5" stroke-opacity="0.6"/>`
+    : row.dot === "square"
+    ? `<rect x="${cx - side / 2}" y="${midY - side / 2}" width="${side}" height="${side}" rx="1.5" fill="${commitColor}" stroke="${bg}" stroke-width="1.5" stroke-opacity="${SHADOW_OPACITY}"/>`
+    : `<circle cx="${cx}" cy="${midY}" r="${DOT_RADIUS}" fill="${commitColor}" stroke="${bg}" stroke-width="1.5" stroke-opacity="${SHADOW_OPACITY}"/>`;
+  const overflow = hidden.size > 0
+    ? `<text x="${colX(maxLanes) + DOT_RADIUS + 2}" y="${midY}" font-family="sans-serif" font-size="9" fill="${palette.overflow}" dominant-baseline="central">+${hidden.size}</text>`
+    : "";
 
   return [
     `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${rowHeight}" viewBox="0 0 ${width} ${rowHeight}">`,
     ...shadows,
     ...lines,
     dot,
+    overflow,
     `</svg>`,
-  ].join("\n");
+  ].filter(Boolean).join("\n");
 }
@@ -5,12 +5,16 @@
  * - undefined: full height (0 → ROW_HEIGHT) — pass-throughs, continuing commit lanes, merge curves
  * - "top": top half (0 → midY) — commit lane arriving at the dot from above
  * - "bottom": bottom half (midY → ROW_HEIGHT) — forks departing from the commit dot
+ *
+ * `dashed` marks lanes that don't represent committed history (the link from
+ * the uncommitted-changes row down to HEAD).
  */
 export interface Segment {
   topCol: number;
   botCol: number;
   color: string;
   half?: "top" | "bottom";
+  dashed?: boolean;
 }
 
 export interface GraphRow {
@@ -19,6 +23,8 @@ export interface GraphRow {
   commitColor: string;
   segments: Segment[];
   numCols: number;
+  /** Dot style; undefined is a filled dot */
+  dot?: "hollow" | "square" | "ghost";
 }
 
 export const BRANCH_COLORS = [
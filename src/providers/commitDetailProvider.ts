@@ -1,24 +1,53 @@
 import * as vscode from "vscode";
 import { execFile } from "node:child_process";
-import type { Commit } from "../git/types.js";
+import { refLabel, type ChangedFile, type Commit, type FileStatus } from "../git/types.js";
+import { getWorkingTreeStatus } from "../git/status.js";
+import { loadTagInfo, type TagInfo } from "../git/tag.js";
+import {
+  buildDiffTreeArgs, loadCommitRelation, mergeBaseLabel, parseDiffTreeOutput, type CommitRelation,
+} from "../git/compare.js";
+import { INDEX_REF, WORKTREE_REF } from "./gitFileContentProvider.js";
 
-type FileStatus = "A" | "M" | "D" | "R" | "C" | "T" | "U";
+// --- Commit Info WebviewView ---
 
-export interface ChangedFile {
-  status: FileStatus;
-  path: string;
-  oldPath?: string;
+const INFO_STYLES = `
+  body { padding: 8px 12px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); font-size: var(--vscode-font-size); line-height: 1.5; }
+  .title { font-size: 1.3em; font-weight: bold; margin-bottom: 2px; }
+  .title-label { color: var(--vscode-descriptionForeground); font-weight: normal; font-size: 0.8em; }
+  .badges { line-height: 2; margin-bottom: 8px; }
+  .row { margin-bottom: 4px; }
+  .label { color: var(--vscode-descriptionForeground); font-size: 0.85em; }
+  .value { word-break: break-all; }
+  .hash { color: var(--vscode-boomergit-hashForeground); font-weight: bold; }
+  .badge { background: var(--vscode-badge-background); color: var(--vscode-boomergit-refBadgeForeground); padding: 1px 6px; border-radius: 3px; font-size: 0.85em; font-weight: bold; margin-right: 4px; }
+  .badge.branch { background: var(--vscode-boomergit-branchBadgeBackground); }
+  .badge.tag { background: var(--vscode-boomergit-tagBadgeBackground); }
+  .badge.remote { background: var(--vscode-boomergit-remoteBadgeBackground); }
+  .badge.head { background: var(--vscode-boomergit-headBadgeBackground); }
+  .badge.stash { background: var(--vscode-boomergit-stashBadgeBackground); }
+  .badge.reflog { background: var(--vscode-boomergit-reflogBadgeBackground); }
+  .message { white-space: pre-wrap; word-wrap: break-word; margin-top: 8px; padding: 8px; background: var(--vscode-textBlockQuote-background); border-left: 3px solid var(--vscode-textBlockQuote-border); border-radius: 2px; }
+  hr { border: none; border-top: 1px solid var(--vscode-widget-border); margin: 10px 0; }
+`;
+
+/** Two selected commits: [1] is diffed against [2] */
+interface Comparison {
+  from: Commit;
+  to: Commit;
+  // Filled in once git answers
+  relation?: CommitRelation;
 }
 
-// --- Commit Info WebviewView ---
-
 export class CommitInfoProvider implements vscode.WebviewViewProvider {
   private view: vscode.WebviewView | undefined;
   private commit: Commit | undefined;
   private activeRefName: string | undefined;
   private activeRefType: string | undefined;
   private fullMessage = "";
+  // The annotation of the active ref when it's an annotated tag
+  private tagInfo: TagInfo | undefined;
   private fetchSeq = 0;
+  private comparison: Comparison | undefined;
 
   constructor(private onDidBecomeVisible?: () => void) {}
 
@@ -34,8 +63,10 @@ export class CommitInfoProvider implements vscode.WebviewViewProvider {
 
   async showCommit(commit: Commit, cwd: string, activeRefName?: string): Promise<void> {
     const seq = ++this.fetchSeq;
+    this.comparison = undefined;
     this.commit = commit;
     this.fullMessage = commit.subject;
+    this.tagInfo = undefined;
     // If no explicit ref, pick the first branch (skip HEAD)
     if (activeRefName) {
       const ref = commit.refs.find((r) => r.name === activeRefName);
@@ -49,29 +80,54 @@ export class CommitInfoProvider implements vscode.WebviewViewProvider {
       this.activeRefType = firstRef?.type;
     }
     this.render();
-
-    const message = await new Promise<string>((resolve) => {
-      execFile("git", ["show", "-s", "--format=%B", commit.hash], { cwd }, (err, stdout) => {
-        resolve(err ? "" : stdout.trim());
-      });
-    });
+    // The uncommitted row has no commit object to read a message from
+    if (commit.kind === "uncommitted") return;
+
+    const [message, tagInfo] = await Promise.all([
+      new Promise<string>((resolve) => {
+        execFile("git", ["show", "-s", "--format=%B", commit.hash], { cwd }, (err, stdout) => {
+          resolve(err ? "" : stdout.trim());
+        });
+      }),
+      this.activeRefType === "tag" && this.activeRefName ? loadTagInfo(cwd, this.activeRefName) : undefined,
+    ]);
 
     if (seq !== this.fetchSeq) return;
     this.fullMessage = message;
+    this.tagInfo = tagInfo;
+    this.render();
+  }
+
+  /** Show how two selected commits relate: their merge base and the commits only in each */
+  async showComparison(from: Commit, to: Commit, cwd: string): Promise<void> {
+    const seq = ++this.fetchSeq;
+    this.commit = undefined;
+    this.comparison = { from, to };
+    this.render();
+
+    const relation = await loadCommitRelation(cwd, from.hash, to.hash);
+    if (seq !== this.fetchSeq) return;
+    this.comparison = { from, to, relation };
     this.render();
   }
 
   clear(): void {
     this.fetchSeq++;
+    this.comparison = undefined;
     this.commit = undefined;
     this.activeRefName = undefined;
     this.activeRefType = undefined;
     this.fullMessage = "";
+    this.tagInfo = undefined;
     this.render();
   }
 
   private render(): void {
     if (!this.view) return;
+    if (this.comparison) {
+      this.renderComparison(this.comparison);
+      return;
+    }
     if (!this.commit) {
       this.view.webview.html = `<!DOCTYPE html><html><body style="padding:8px;font-family:var(--vscode-font-family);color:var(--vscode-foreground);font-size:var(--vscode-font-size);">
         <p style="color:var(--vscode-descriptionForeground);">Click a commit to see details</p>
@@ -81,50 +137,97 @@ export class CommitInfoProvider implements vscode.WebviewViewProvider {
     }
 
     const c = this.commit;
+    if (c.kind === "uncommitted") {
+      this.view.title = "Uncommitted Changes";
+      this.view.webview.html = `<!DOCTYPE html><html><body style="padding:8px 12px;font-family:var(--vscode-font-family);color:var(--vscode-foreground);font-size:var(--vscode-font-size);">
+        <p>${this.escapeHtml(c.subject)}</p>
+        <p style="color:var(--vscode-descriptionForeground);">Based on ${this.escapeHtml(c.parents[0]?.slice(0, 8) ?? "")}. See Changed Files for the staged and unstaged files.</p>
+      </body></html>`;
+      return;
+    }
     const date = new Date(c.timestamp * 1000).toLocaleString();
+    const commitDate = new Date(c.commitTimestamp * 1000).toLocaleString();
+    // Only show the committer when it adds something (rebases, cherry-picks, applied patches)
+    const showCommitter = c.committer !== c.author || c.committerEmail !== c.email || c.commitTimestamp !== c.timestamp;
     const msgHtml = this.escapeHtml(this.fullMessage || c.subject);
+    const tag = this.tagInfo;
+    const tagHtml = tag ? `
+  <div class="row"><span class="label">Tagger </span><span class="value">${this.escapeHtml(tag.tagger)} &lt;${this.escapeHtml(tag.taggerEmail)}&gt;</span></div>
+  <div class="row"><span class="label">Tagged </span><span class="value">${this.escapeHtml(new Date(tag.timestamp * 1000).toLocaleString())}</span></div>
+  ${tag.message ? `<div class="message">${this.escapeHtml(tag.message)}</div>` : ""}
+  <hr>` : "";
 
     // Title: "Branch: name" / "Tag: name" etc, or nothing if no refs
-    const typeLabels: Record<string, string> = { branch: "Branch", tag: "Tag", remote: "Remote" };
+    const typeLabels: Record<string, string> = { branch: "Branch", tag: "Tag", remote: "Remote", stash: "Stash", reflog: "Reflog" };
     const titleLabel = this.activeRefType ? typeLabels[this.activeRefType] || "" : "";
     const titleName = this.activeRefName;
+    const tracking = c.refs.find((r) => r.name === this.activeRefName && r.type === "branch")?.tracking;
+    let upstreamHtml = "";
+    if (tracking) {
+      const counts = [tracking.ahead ? `${tracking.ahead} ahead` : "", tracking.behind ? `${tracking.behind} behind` : ""];
+      const status = tracking.gone ? "gone" : counts.filter(Boolean).join(", ") || "up to date";
+      upstreamHtml = `
+  <div class="row"><span class="label">Upstream </span><span class="value">${this.escapeHtml(`${tracking.upstream} (${status})`)}</span></div>`;
+    }
     this.view.title = titleName || "Commit Info";
 
     // Subtitle badges: all other refs (excluding the active one and HEAD)
     const subtitleRefs = c.refs.filter((r) => r.name !== this.activeRefName && r.type !== "head");
-    const badgeColors: Record<string, string> = {
-      branch: "#4ec9b0", tag: "#dcdcaa", remote: "#9cdcfe", head: "#c586c0",
-    };
-    const badges = subtitleRefs.map((r) => {
-      const bg = badgeColors[r.type] || "#888";
-      return `<span style="background:${bg};color:#1e1e1e;padding:1px 6px;border-radius:3px;font-size:0.85em;font-weight:bold;margin-right:4px;">${this.escapeHtml(r.name)}</span>`;
-    }).join("");
+    // Coloured by type through the badge classes in INFO_STYLES
+    const badges = subtitleRefs
+      .map((r) => `<span class="badge ${r.type}">${this.escapeHtml(refLabel(r))}</span>`)
+      .join("");
 
     this.view.webview.html = `<!DOCTYPE html>
 <html>
-<head><style>
-  body { padding: 8px 12px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); font-size: var(--vscode-font-size); line-height: 1.5; }
-  .title { font-size: 1.3em; font-weight: bold; margin-bottom: 2px; }
-  .title-label { color: var(--vscode-descriptionForeground); font-weight: normal; font-size: 0.8em; }
-  .badges { line-height: 2; margin-bottom: 8px; }
-  .row { margin-bottom: 4px; }
-  .label { color: var(--vscode-descriptionForeground); font-size: 0.85em; }
-  .value { word-break: break-all; }
-  .message { white-space: pre-wrap; word-wrap: break-word; margin-top: 8px; padding: 8px; background: var(--vscode-textBlockQuote-background); border-left: 3px solid var(--vscode-textBlockQuote-border); border-radius: 2px; }
-  hr { border: none; border-top: 1px solid var(--vscode-widget-border); margin: 10px 0; }
-</style></head>
+<head><style>${INFO_STYLES}</style></head>
 <body>
   ${titleName ? `<div class="title"><span class="title-label">${this.escapeHtml(titleLabel)}:</span> ${this.escapeHtml(titleName)}</div>` : ""}
-  ${badges ? `<div class="badges">${badges}</div>` : ""}
-  <div class="row"><span class="label">Hash </span><span class="value" style="color:#F5A623;font-weight:bold;">${this.escapeHtml(c.hash)}</span></div>
-  <div class="row"><span class="label">Author </span><span class="value">${this.escapeHtml(c.author)} &lt;${this.escapeHtml(c.email)}&gt;</span></div>
+  ${badges ? `<div class="badges">${badges}</div>` : ""}${upstreamHtml}${tagHtml}
+  <div class="row"><span class="label">Hash </span><span class="value hash">${this.escapeHtml(c.hash)}</span></div>
+  <div class="row"><span class="label">Author </span><span class="value">${this.escapeHtml(c.mailmapAuthor)} &lt;${this.escapeHtml(c.mailmapEmail)}&gt;</span></div>
   <div class="row"><span class="label">Date </span><span class="value">${this.escapeHtml(date)}</span></div>
+  ${showCommitter ? `<div class="row"><span class="label">Committer </span><span class="value">${this.escapeHtml(c.committer)} &lt;${this.escapeHtml(c.committerEmail)}&gt;</span></div>
+  <div class="row"><span class="label">Committed </span><span class="value">${this.escapeHtml(commitDate)}</span></div>` : ""}
+  <div class="row"><span class="label">Tree </span><span class="value">${this.escapeHtml(c.treeHash)}</span></div>
   <hr>
   <div class="message">${msgHtml}</div>
 </body>
 </html>`;
   }
 
+  private renderComparison(cmp: Comparison): void {
+    if (!this.view) return;
+    this.view.title = "Compare";
+    const side = (n: number, c: Commit) =>
+      `<div class="row"><span class="label">[${n}] </span><span class="value hash">${this.escapeHtml(c.hash.slice(0, 8))}</span> ${this.escapeHtml(c.subject)}</div>`;
+
+    let relation = `<div class="row"><span class="label">Counting commits…</span></div>`;
+    if (cmp.relation) {
+      const { mergeBase, fromOnly, toOnly } = cmp.relation;
+      const base = mergeBaseLabel(mergeBase, cmp.from.hash, cmp.to.hash);
+      const plural = (n: number) => `${n} commit${n === 1 ? "" : "s"}`;
+      relation = `<div class="row"><span class="label">Merge base </span><span class="value">${this.escapeHtml(base)}</span></div>
+  <div class="row"><span class="label">Only in [1] </span><span class="value">${plural(fromOnly)}</span></div>
+  <div class="row"><span class="label">Only in [2] </span><span class="value">${plural(toOnly)}</span></div>
+  <div class="row"><span class="value">[2] is ${toOnly} ahead, ${fromOnly} behind [1]</span></div>`;
+    }
+
+    this.view.webview.html = `<!DOCTYPE html>
+<html>
+<head><style>${INFO_STYLES}</style></head>
+<body>
+  <div class="title"><span class="title-label">Compare:</span> [1] ↔ [2]</div>
+  ${side(1, cmp.from)}
+  ${side(2, cmp.to)}
+  <hr>
+  ${relation}
+  <hr>
+  <p style="color:var(--vscode-descriptionForeground);">Changed Files lists the differences from [1] to [2].</p>
+</body>
+</html>`;
+  }
+
   private escapeHtml(text: string): string {
     return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
   }
@@ -140,7 +243,7 @@ interface FileTreeNode {
 }
 
 class DirItem extends vscode.TreeItem {
-  constructor(public node: FileTreeNode, public commitHash: string, public parentHash: string, public cwd: string) {
+  constructor(public node: FileTreeNode, public group: FileGroup, public cwd: string) {
     super(node.name, vscode.TreeItemCollapsibleState.Expanded);
     this.iconPath = new vscode.ThemeIcon("folder");
     this.contextValue = "changedDir";
@@ -148,15 +251,29 @@ class DirItem extends vscode.TreeItem {
 }
 
 class FileItem extends vscode.TreeItem {
-  constructor(file: ChangedFile, basename: string, commitHash: string, parentHash: string, cwd: string) {
-    super(basename, vscode.TreeItemCollapsibleState.None);
+  readonly basename: string;
+
+  constructor(file: ChangedFile, basename: string, group: FileGroup, cwd: string, highlighted = false) {
+    super(highlighted ? { label: basename, highlights: [[0, basename.length]] } : basename, vscode.TreeItemCollapsibleState.None);
+    this.basename = basename;
+    if (highlighted) this.description = "file history";
     this.iconPath = FileItem.statusIcon(file.status);
     this.contextValue = "changedFile";
     this.tooltip = `${file.status === "R" ? `${file.oldPath} → ` : ""}${file.path}`;
+    if (file.status === "U") {
+      // A conflicted file has no single index version to diff against — open
+      // it to resolve the conflict markers
+      this.command = {
+        command: "vscode.open",
+        title: "Open File",
+        arguments: [vscode.Uri.joinPath(vscode.Uri.file(cwd), file.path)],
+      };
+      return;
+    }
     this.command = {
       command: "boomergit.openFileDiff",
       title: "Show File Diff",
-      arguments: [file, commitHash, parentHash, cwd],
+      arguments: [file, group.commitHash, group.parentHash, cwd, group.sideLabels],
     };
   }
 
@@ -166,6 +283,7 @@ class FileItem extends vscode.TreeItem {
       case "D": return new vscode.ThemeIcon("diff-removed", new vscode.ThemeColor("gitDecoration.deletedResourceForeground"));
       case "R": return new vscode.ThemeIcon("diff-renamed", new vscode.ThemeColor("gitDecoration.renamedResourceForeground"));
       case "C": return new vscode.ThemeIcon("diff-added", new vscode.ThemeColor("gitDecoration.addedResourceForeground"));
+      case "U": return new vscode.ThemeIcon("warning", new vscode.ThemeColor("gitDecoration.conflictingResourceForeground"));
       default:  return new vscode.ThemeIcon("diff-modified", new vscode.ThemeColor("gitDecoration.modifiedResourceForeground"));
     }
   }
@@ -203,54 +321,144 @@ function flattenSingleChildDirs(node: FileTreeNode): FileTreeNode {
   return node;
 }
 
-function treeNodeToItems(node: FileTreeNode, commitHash: string, parentHash: string, cwd: string): vscode.TreeItem[] {
+function treeNodeToItems(node: FileTreeNode, group: FileGroup, cwd: string, highlightPath?: string): vscode.TreeItem[] {
   const dirs: DirItem[] = [];
-  const files: vscode.TreeItem[] = [];
+  const files: FileItem[] = [];
   for (const child of node.children.values()) {
     if (child.file) {
-      files.push(new FileItem(child.file, child.name, commitHash, parentHash, cwd));
+      files.push(new FileItem(child.file, child.name, group, cwd, child.file.path === highlightPath));
     } else {
-      dirs.push(new DirItem(child, commitHash, parentHash, cwd));
+      dirs.push(new DirItem(child, group, cwd));
     }
   }
   dirs.sort((a, b) => a.node.name.localeCompare(b.node.name));
-  files.sort((a, b) => (a.label as string).localeCompare(b.label as string));
+  files.sort((a, b) => a.basename.localeCompare(b.basename));
   return [...dirs, ...files];
 }
 
+/**
+ * One set of changed files, diffed from `parentHash` (left) to `commitHash`
+ * (right). A plain commit has a single unlabelled group; the uncommitted
+ * changes row has separate conflicted, staged and unstaged groups.
+ */
+interface FileGroup {
+  label: string;
+  fileCount: number;
+  tree: FileTreeNode;
+  commitHash: string;
+  parentHash: string;
+  // Diff title labels for the left and right side, instead of "Parent"/"Commit"
+  sideLabels?: [string, string];
+  // Unmerged files of a merge stopped for conflicts
+  conflicts?: boolean;
+}
+
+class GroupItem extends vscode.TreeItem {
+  constructor(public group: FileGroup, public cwd: string) {
+    super(group.label, vscode.TreeItemCollapsibleState.Expanded);
+    this.description = String(group.fileCount);
+    this.contextValue = group.conflicts ? "conflictGroup" : "changedGroup";
+    if (group.conflicts) this.iconPath = new vscode.ThemeIcon("warning");
+  }
+}
+
+function fileGroup(label: string, files: ChangedFile[], commitHash: string, parentHash: string): FileGroup {
+  return { label, fileCount: files.length, tree: flattenSingleChildDirs(buildFileTree(files)), commitHash, parentHash };
+}
+
 export class ChangedFilesProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  private files: ChangedFile[] = [];
-  private fileTree: FileTreeNode = { name: "", path: "", children: new Map() };
+  private groups: FileGroup[] = [];
   private fetchSeq = 0;
-  private label = "Changed Files";
-  private commitHash = "";
-  private parentHash = "";
   private cwd = "";
+  // The file a file-history graph is about, highlighted among the changes
+  private highlightPath: string | undefined;
 
-  async showCommit(hash: string, parentHash: string, isRoot: boolean, cwd: string): Promise<void> {
-    this.commitHash = hash;
-    this.parentHash = parentHash;
+  async showCommit(hash: string, parentHash: string, isRoot: boolean, cwd: string, highlightPath?: string): Promise<void> {
     this.cwd = cwd;
+    this.highlightPath = highlightPath;
     const seq = ++this.fetchSeq;
-    this.files = [];
-    this.fileTree = { name: "", path: "", children: new Map() };
+    this.groups = [];
     this._onDidChangeTreeData.fire();
 
     const files = await this.fetchChangedFiles(hash, isRoot, cwd);
     if (seq !== this.fetchSeq) return;
 
-    this.files = files;
-    this.fileTree = flattenSingleChildDirs(buildFileTree(files));
+    this.groups = [fileGroup("", files, hash, parentHash)];
+    this._onDidChangeTreeData.fire();
+  }
+
+  /** Show the working tree's conflicted, staged (index vs HEAD) and unstaged (working tree vs index) files */
+  async showUncommitted(cwd: string): Promise<void> {
+    this.cwd = cwd;
+    this.highlightPath = undefined;
+    const seq = ++this.fetchSeq;
+    this.groups = [];
+    this._onDidChangeTreeData.fire();
+
+    const status = await getWorkingTreeStatus(cwd);
+    if (seq !== this.fetchSeq) return;
+
+    const conflicts = status.unstaged.filter((f) => f.status === "U");
+    const unstaged = status.unstaged.filter((f) => f.status !== "U");
+    const groups: FileGroup[] = [];
+    if (conflicts.length) groups.push({ ...fileGroup("Conflicts", conflicts, WORKTREE_REF, INDEX_REF), conflicts: true });
+    if (status.staged.length) groups.push(fileGroup("Staged Changes", status.staged, INDEX_REF, "HEAD"));
+    if (unstaged.length) groups.push(fileGroup("Changes", unstaged, WORKTREE_REF, INDEX_REF));
+    this.groups = groups;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Show a stash: its tracked changes against the base commit, plus the
+   * untracked files it saved (kept in the stash's third parent, if any).
+   */
+  async showStash(hash: string, baseHash: string, cwd: string): Promise<void> {
+    this.cwd = cwd;
+    this.highlightPath = undefined;
+    const seq = ++this.fetchSeq;
+    this.groups = [];
+    this._onDidChangeTreeData.fire();
+
+    const [files, untrackedHash] = await Promise.all([
+      this.fetchChangedFiles(hash, false, cwd, baseHash),
+      new Promise<string>((resolve) => {
+        execFile("git", ["rev-parse", "--verify", "-q", `${hash}^3`], { cwd },
+          (err, stdout) => resolve(err ? "" : stdout.trim()));
+      }),
+    ]);
+    const untracked = untrackedHash ? await this.fetchTreeFiles(untrackedHash, cwd) : [];
+    if (seq !== this.fetchSeq) return;
+
+    const groups = [fileGroup("Changes", files, hash, baseHash)];
+    if (untracked.length) groups.push(fileGroup("Untracked", untracked, untrackedHash, ""));
+    this.groups = groups;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /** Show the files that differ between two selected commits, [1] on the left */
+  async showComparison(fromHash: string, toHash: string, cwd: string): Promise<void> {
+    this.cwd = cwd;
+    this.highlightPath = undefined;
+    const seq = ++this.fetchSeq;
+    this.groups = [];
+    this._onDidChangeTreeData.fire();
+
+    const files = await this.fetchChangedFiles(toHash, false, cwd, fromHash);
+    if (seq !== this.fetchSeq) return;
+
+    this.groups = [{
+      ...fileGroup("", files, toHash, fromHash),
+      sideLabels: [`[1] ${fromHash.slice(0, 8)}`, `[2] ${toHash.slice(0, 8)}`],
+    }];
     this._onDidChangeTreeData.fire();
   }
 
   clear(): void {
     this.fetchSeq++;
-    this.files = [];
-    this.fileTree = { name: "", path: "", children: new Map() };
+    this.groups = [];
     this._onDidChangeTreeData.fire();
   }
 
@@ -261,10 +469,19 @@ export class ChangedFilesProvider implements vscode.TreeDataProvider<vscode.Tree
   getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
     try {
       if (!element) {
-        return treeNodeToItems(this.fileTree, this.commitHash, this.parentHash, this.cwd);
+        // A single unlabelled group shows its files directly at the root
+        if (this.groups.length === 1 && !this.groups[0].label) {
+          const g = this.groups[0];
+          return treeNodeToItems(g.tree, g, this.cwd, this.highlightPath);
+        }
+        return this.groups.map((g) => new GroupItem(g, this.cwd));
+      }
+      if (element instanceof GroupItem) {
+        const g = element.group;
+        return treeNodeToItems(g.tree, g, element.cwd, this.highlightPath);
       }
       if (element instanceof DirItem) {
-        return treeNodeToItems(element.node, element.commitHash, element.parentHash, element.cwd);
+        return treeNodeToItems(element.node, element.group, element.cwd, this.highlightPath);
       }
       return [];
     } catch (err) {
@@ -273,26 +490,23 @@ export class ChangedFilesProvider implements vscode.TreeDataProvider<vscode.Tree
     }
   }
 
-  private fetchChangedFiles(hash: string, isRoot: boolean, cwd: string): Promise<ChangedFile[]> {
-    const args = ["diff-tree", "--no-commit-id", "-r", "--name-status"];
-    if (isRoot) args.push("--root");
-    args.push(hash);
+  /** Files changed by `hash` — against its parent, or against `from` when given */
+  private fetchChangedFiles(hash: string, isRoot: boolean, cwd: string, from?: string): Promise<ChangedFile[]> {
+    const args = buildDiffTreeArgs(hash, { root: isRoot, from });
     return new Promise((resolve) => {
       execFile("git", args, { cwd }, (err, stdout, stderr) => {
         console.log(`[boomergit] diff-tree: hash=${hash.slice(0, 8)} isRoot=${isRoot} err=${err?.message ?? "none"} stderr=${stderr?.trim()} stdout=${JSON.stringify(stdout?.slice(0, 300))}`);
+        resolve(err ? [] : parseDiffTreeOutput(stdout));
+      });
+    });
+  }
+
+  /** Every file in a commit's tree, listed as additions */
+  private fetchTreeFiles(hash: string, cwd: string): Promise<ChangedFile[]> {
+    return new Promise((resolve) => {
+      execFile("git", ["ls-tree", "-r", "-z", "--name-only", hash], { cwd, maxBuffer: 10 * 1024 * 1024 }, (err, stdout) => {
         if (err) return resolve([]);
-        const files: ChangedFile[] = [];
-        for (const line of stdout.trim().split("\n")) {
-          if (!line) continue;
-          const parts = line.split("\t");
-          const statusRaw = parts[0].charAt(0) as FileStatus;
-          if (statusRaw === "R" || statusRaw === "C") {
-            files.push({ status: statusRaw, path: parts[2], oldPath: parts[1] });
-          } else {
-            files.push({ status: statusRaw, path: parts[1] });
-          }
-        }
-        resolve(files);
+        resolve(stdout.split("\0").filter(Boolean).map((path) => ({ status: "A", path })));
       });
     });
   }
@@ -3,6 +3,11 @@ import { execFile } from "node:child_process";
 
 export const FILE_SCHEME = "boomergit-file";
 
+/** Ref meaning "the index" — `git show :0:<path>` reads the staged version */
+export const INDEX_REF = ":0";
+/** Ref meaning "the working tree" — opened as the real file, never through git */
+export const WORKTREE_REF = "worktree";
+
 /** Build a URI with JSON-encoded query for resourceLabelFormatters */
 export function fileUri(filePath: string, ref: string, cwd: string, label: string): vscode.Uri {
   const query = JSON.stringify({ ref, cwd, label });
@@ -1,33 +1,52 @@
 import * as vscode from "vscode";
-import type { Commit } from "../git/types.js";
+import { refLabel, type Commit } from "../git/types.js";
 
 export class GitGraphProvider implements vscode.TextDocumentContentProvider {
   private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
   readonly onDidChange = this._onDidChange.event;
 
-  private commits: Commit[] = [];
+  // Formatted once per commit so appending a page doesn't re-format the rest.
+  // Keyed by graph URI — each repository has its own graph document.
+  private lines = new Map<string, string[]>();
 
-  setCommits(commits: Commit[]): void {
-    this.commits = commits;
+  setCommits(uri: vscode.Uri, commits: Commit[]): void {
+    this.lines.set(uri.toString(), commits.map((c) => this.formatLine(c)));
+  }
+
+  /** Add a further page of commits below the ones already shown */
+  appendCommits(uri: vscode.Uri, commits: Commit[]): void {
+    const lines = this.lines.get(uri.toString());
+    if (!lines) return;
+    for (const commit of commits) {
+      lines.push(this.formatLine(commit));
+    }
+  }
+
+  /** Drop the content of a graph whose tab was closed */
+  forget(uri: vscode.Uri): void {
+    this.lines.delete(uri.toString());
   }
 
   refresh(uri: vscode.Uri): void {
     this._onDidChange.fire(uri);
   }
 
-  provideTextDocumentContent(_uri: vscode.Uri): string {
-    const lines: string[] = [];
-    for (const commit of this.commits) {
-      const shortHash = commit.hash.slice(0, 8);
-      const date = new Date(commit.timestamp * 1000);
-      const dateStr = date.toISOString().slice(0, 10);
-      const refTokens = commit.refs.map((r) => ` ${r.name} `).join("");
-      const refSection = refTokens || "";
-
-      // Format: {pad}{hash}{pad}{refs}{gap}{subject}{pad}{author}{pad}{date}
-      lines.push(`  ${shortHash}  ${refSection}${commit.subject}  ${commit.author}  ${dateStr}`);
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.lines.get(uri.toString())?.join("\n") ?? "";
+  }
+
+  private formatLine(commit: Commit): string {
+    if (commit.kind === "uncommitted") {
+      return `  ${"·".repeat(8)}  ${commit.subject}`;
     }
-    return lines.join("\n");
+    const shortHash = commit.hash.slice(0, 8);
+    const date = new Date(commit.timestamp * 1000);
+    const dateStr = date.toISOString().slice(0, 10);
+    const refTokens = commit.refs.map((r) => ` ${refLabel(r)} `).join("");
+    const refSection = refTokens || "";
+
+    // Format: {pad}{hash}{pad}{refs}{gap}{subject}{pad}{author}{pad}{date}
+    return `  ${shortHash}  ${refSection}${commit.subject}  ${commit.mailmapAuthor}  ${dateStr}`;
   }
 
   dispose(): void {
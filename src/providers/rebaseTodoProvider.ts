@@ -0,0 +1,97 @@
+import * as vscode from "vscode";
+import type { TodoEntry } from "../git/rebase.js";
+
+export const REBASE_SCHEME = "boomergit-rebase";
+
+/** An interactive rebase waiting for its todo list to be saved */
+export interface PendingRebase {
+  cwd: string;
+  // What to rebase onto, as passed to `git rebase`
+  onto: string;
+  // The commits the todo list was opened with
+  commits: TodoEntry[];
+}
+
+interface TodoDocument {
+  rebase: PendingRebase;
+  content: Uint8Array;
+  mtime: number;
+}
+
+/**
+ * Editable in-memory documents holding interactive rebase todo lists.
+ * Nothing is written to disk: saving fires onDidSaveTodo, which starts the
+ * rebase.
+ */
+export class RebaseTodoProvider implements vscode.FileSystemProvider {
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this._onDidChangeFile.event;
+  private _onDidSaveTodo = new vscode.EventEmitter<{ uri: vscode.Uri; rebase: PendingRebase; text: string }>();
+  readonly onDidSaveTodo = this._onDidSaveTodo.event;
+
+  private docs = new Map<string, TodoDocument>();
+  private seq = 0;
+
+  /**
+   * Create a todo document. It's named like git's own todo file, so VS Code
+   * highlights it as one; the counter keeps concurrent rebases apart.
+   */
+  create(rebase: PendingRebase, text: string): vscode.Uri {
+    const uri = vscode.Uri.from({ scheme: REBASE_SCHEME, path: `/${++this.seq}/git-rebase-todo` });
+    this.docs.set(uri.toString(), { rebase, content: new TextEncoder().encode(text), mtime: Date.now() });
+    return uri;
+  }
+
+  /** Drop a todo document that was closed or already run */
+  forget(uri: vscode.Uri): void {
+    this.docs.delete(uri.toString());
+  }
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => {});
+  }
+
+  stat(uri: vscode.Uri): vscode.FileStat {
+    const doc = this.get(uri);
+    return { type: vscode.FileType.File, ctime: 0, mtime: doc.mtime, size: doc.content.byteLength };
+  }
+
+  readFile(uri: vscode.Uri): Uint8Array {
+    return this.get(uri).content;
+  }
+
+  writeFile(uri: vscode.Uri, content: Uint8Array): void {
+    const doc = this.get(uri);
+    doc.content = content;
+    doc.mtime = Date.now();
+    this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    this._onDidSaveTodo.fire({ uri, rebase: doc.rebase, text: new TextDecoder().decode(content) });
+  }
+
+  readDirectory(): [string, vscode.FileType][] {
+    return [];
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  private get(uri: vscode.Uri): TodoDocument {
+    const doc = this.docs.get(uri.toString());
+    if (!doc) throw vscode.FileSystemError.FileNotFound(uri);
+    return doc;
+  }
+
+  dispose(): void {
+    this._onDidChangeFile.dispose();
+    this._onDidSaveTodo.dispose();
+  }
+}
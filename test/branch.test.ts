@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { buildRemoteRenameArgs, buildRenameArgs, buildSetUpstreamArgs, checkRefName } from "../src/git/branch.js";
+
+describe("buildRenameArgs / buildRemoteRenameArgs", () => {
+  it("renames the local branch", () => {
+    expect(buildRenameArgs("topic", "feature/topic")).toEqual(["branch", "-m", "topic", "feature/topic"]);
+  });
+
+  it("pushes the new name with its upstream set, then deletes the old remote branch", () => {
+    expect(buildRemoteRenameArgs({ remote: "origin", branch: "old-topic" }, "topic")).toEqual({
+      push: ["push", "--progress", "--set-upstream", "origin", "refs/heads/topic"],
+      remove: ["push", "--progress", "origin", "--delete", "refs/heads/old-topic"],
+    });
+  });
+});
+
+describe("buildSetUpstreamArgs", () => {
+  it("sets the upstream, or unsets it when there is none", () => {
+    expect(buildSetUpstreamArgs("main", "origin/main")).toEqual(["branch", "--set-upstream-to=origin/main", "main"]);
+    expect(buildSetUpstreamArgs("main")).toEqual(["branch", "--unset-upstream", "main"]);
+  });
+});
+
+describe("checkRefName", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), "boomergit-branch-"));
+    execFileSync("git", ["init", "-b", "main"], { cwd: root, stdio: "pipe" });
+  });
+
+  afterEach(() => rmSync(root, { recursive: true, force: true }));
+
+  it("accepts names git accepts", async () => {
+    expect(await checkRefName(root, "refs/heads", "feature/x-1", "branch")).toBeUndefined();
+    expect(await checkRefName(root, "refs/tags", "v1.0.0", "tag")).toBeUndefined();
+  });
+
+  it("says which names git refuses", async () => {
+    expect(await checkRefName(root, "refs/heads", "a..b", "branch")).toBe('"a..b" is not a valid branch name');
+    expect(await checkRefName(root, "refs/tags", "v1 final", "tag")).toBe('"v1 final" is not a valid tag name');
+  });
+
+  it("leaves an empty name alone until something is typed", async () => {
+    expect(await checkRefName(root, "refs/heads", "", "branch")).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { GRAPH_PALETTES, hashColor, parseBranchColors, refColor, themedColor } from "../src/graph/colors.js";
+import { BRANCH_COLORS } from "../src/graph/types.js";
+import { refFromFullName } from "../src/git/types.js";
+
+describe("parseBranchColors", () => {
+  it("keeps hex colours in order and expands the short form", () => {
+    expect(parseBranchColors({ main: "#F5A623", "release/*": "#e57", topic: "red", other: 3 })).toEqual([
+      { pattern: "main", color: "#F5A623" },
+      { pattern: "release/*", color: "#ee5577" },
+    ]);
+  });
+});
+
+describe("refColor", () => {
+  const rules = parseBranchColors({ main: "#111111", "release/*": "#222222", "feature/**": "#333333" });
+
+  it("uses the first matching rule, for local and remote branches alike", () => {
+    expect(refColor(refFromFullName("refs/heads/main"), rules)).toBe("#111111");
+    expect(refColor(refFromFullName("refs/remotes/origin/main"), rules)).toBe("#111111");
+    expect(refColor(refFromFullName("refs/heads/release/2.0"), rules)).toBe("#222222");
+    expect(refColor(refFromFullName("refs/heads/feature/ui/menu"), rules)).toBe("#333333");
+  });
+
+  it("picks a palette colour from the name when no rule matches", () => {
+    const ref = refFromFullName("refs/heads/release/2.0/hotfix");
+    expect(refColor(ref, rules)).toBe(hashColor("release/2.0/hotfix"));
+    expect(BRANCH_COLORS).toContain(refColor(ref, rules));
+  });
+});
+
+describe("hashColor", () => {
+  it("gives the same colour for the same name", () => {
+    expect(hashColor("topic")).toBe(hashColor("topic"));
+    expect(new Set(["a", "b", "c", "d", "e", "f"].map(hashColor)).size).toBeGreaterThan(1);
+  });
+});
+
+describe("themedColor", () => {
+  it("swaps a palette colour for the theme's shade of it and keeps others", () => {
+    expect(themedColor(BRANCH_COLORS[3], "dark")).toBe(BRANCH_COLORS[3]);
+    expect(themedColor(BRANCH_COLORS[3], "highContrastLight")).toBe(GRAPH_PALETTES.highContrastLight.branches[3]);
+    expect(themedColor("#123456", "light")).toBe("#123456");
+  });
+
+  it("has a full palette for every theme kind", () => {
+    for (const palette of Object.values(GRAPH_PALETTES)) {
+      expect(palette.branches).toHaveLength(BRANCH_COLORS.length);
+    }
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  buildDiffTreeArgs, loadCommitRelation, mergeBaseLabel, parseDiffTreeOutput, parseLeftRightCount,
+} from "../src/git/compare.js";
+
+describe("parseLeftRightCount", () => {
+  it("reads the commits only in each side", () => {
+    expect(parseLeftRightCount("3\t5\n")).toEqual({ fromOnly: 3, toOnly: 5 });
+  });
+
+  it("counts nothing when git gave no answer", () => {
+    expect(parseLeftRightCount("")).toEqual({ fromOnly: 0, toOnly: 0 });
+  });
+});
+
+describe("mergeBaseLabel", () => {
+  const A = "a".repeat(40);
+  const B = "b".repeat(40);
+  const C = "c".repeat(40);
+
+  it("names the side the merge base is, else shows its short hash", () => {
+    expect(mergeBaseLabel(A, A, B)).toBe("[1]");
+    expect(mergeBaseLabel(B, A, B)).toBe("[2]");
+    expect(mergeBaseLabel(C, A, B)).toBe("cccccccc");
+  });
+
+  it("says when the histories are unrelated", () => {
+    expect(mergeBaseLabel("", A, B)).toBe("none (unrelated histories)");
+  });
+});
+
+describe("buildDiffTreeArgs / parseDiffTreeOutput", () => {
+  it("diffs against the first parent, a given commit, or nothing for a root", () => {
+    expect(buildDiffTreeArgs("h")).toEqual(["diff-tree", "--no-commit-id", "-r", "--name-status", "h"]);
+    expect(buildDiffTreeArgs("h", { from: "f" })).toEqual(["diff-tree", "--no-commit-id", "-r", "--name-status", "f", "h"]);
+    expect(buildDiffTreeArgs("h", { root: true })).toEqual(["diff-tree", "--no-commit-id", "-r", "--name-status", "--root", "h"]);
+  });
+
+  it("reads each file's status, with the old path of renames and copies", () => {
+    expect(parseDiffTreeOutput("M\tsrc/a.ts\nA\tb.txt\nR087\told.ts\tnew.ts\nC100\tx\ty\nD\tgone\n")).toEqual([
+      { status: "M", path: "src/a.ts" },
+      { status: "A", path: "b.txt" },
+      { status: "R", path: "new.ts", oldPath: "old.ts" },
+      { status: "C", path: "y", oldPath: "x" },
+      { status: "D", path: "gone" },
+    ]);
+    expect(parseDiffTreeOutput("")).toEqual([]);
+  });
+});
+
+describe("comparing two commits in a repository", () => {
+  let root: string;
+  const env = {
+    GIT_AUTHOR_NAME: "Test", GIT_AUTHOR_EMAIL: "test@example.com",
+    GIT_COMMITTER_NAME: "Test", GIT_COMMITTER_EMAIL: "test@example.com",
+  };
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: root, env: { ...process.env, ...env }, stdio: "pipe" }).toString().trim();
+  const commit = (file: string) => {
+    writeFileSync(path.join(root, file), file);
+    git("add", file);
+    git("commit", "-m", file);
+    return git("rev-parse", "HEAD");
+  };
+
+  let base: string;
+  let main: string;
+  let topic: string;
+
+  // base ─ a.txt ─ b.txt (main)
+  //     └─ c.txt (topic)
+  beforeEach(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), "boomergit-compare-"));
+    git("init", "-b", "main");
+    base = commit("base.txt");
+    commit("a.txt");
+    main = commit("b.txt");
+    git("checkout", "-b", "topic", base);
+    topic = commit("c.txt");
+  });
+
+  afterEach(() => rmSync(root, { recursive: true, force: true }));
+
+  it("finds the merge base and the commits only in each", async () => {
+    expect(await loadCommitRelation(root, main, topic)).toEqual({ mergeBase: base, fromOnly: 2, toOnly: 1 });
+  });
+
+  it("swaps the counts when the order is swapped", async () => {
+    expect(await loadCommitRelation(root, topic, main)).toEqual({ mergeBase: base, fromOnly: 1, toOnly: 2 });
+  });
+
+  it("lists the files that differ from [1] to [2], reversed when swapped", () => {
+    const from = (a: string, b: string) => parseDiffTreeOutput(git(...buildDiffTreeArgs(b, { from: a })));
+    expect(from(main, topic)).toEqual([
+      { status: "D", path: "a.txt" },
+      { status: "D", path: "b.txt" },
+      { status: "A", path: "c.txt" },
+    ]);
+    expect(from(topic, main)).toEqual([
+      { status: "A", path: "a.txt" },
+      { status: "A", path: "b.txt" },
+      { status: "D", path: "c.txt" },
+    ]);
+  });
+});
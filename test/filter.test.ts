@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { buildRevisionArgs, describeFilter, isFilterActive, matchGlob, NO_FILTER } from "../src/git/filter.js";
+import { refFromFullName } from "../src/git/types.js";
+
+const refs = [
+  "refs/heads/main",
+  "refs/heads/release/1.0",
+  "refs/heads/release/1.0/hotfix",
+  "refs/remotes/origin/main",
+  "refs/remotes/origin/release/2.0",
+  "refs/tags/v1.0",
+].map((name) => refFromFullName(name, ["origin"]));
+
+describe("matchGlob", () => {
+  it("keeps * and ? within one path segment", () => {
+    expect(matchGlob("release/*", "release/1.0")).toBe(true);
+    expect(matchGlob("release/*", "release/1.0/hotfix")).toBe(false);
+    expect(matchGlob("v?.0", "v1.0")).toBe(true);
+    expect(matchGlob("v?.0", "v10.0")).toBe(false);
+  });
+
+  it("lets ** span segments", () => {
+    expect(matchGlob("release/**", "release/1.0/hotfix")).toBe(true);
+  });
+
+  it("treats regex characters literally", () => {
+    expect(matchGlob("v1.0", "v1x0")).toBe(false);
+    expect(matchGlob("fix+(x)", "fix+(x)")).toBe(true);
+  });
+});
+
+describe("buildRevisionArgs", () => {
+  it("starts from every ref except stash internals without a filter", () => {
+    expect(buildRevisionArgs(NO_FILTER, refs)).toEqual(["--exclude=refs/stash", "--all"]);
+  });
+
+  it("excludes hidden ref kinds from --all", () => {
+    expect(buildRevisionArgs({ ...NO_FILTER, hideRemotes: true, hideTags: true }, refs)).toEqual([
+      "--exclude=refs/stash", "--exclude=refs/remotes/*", "--exclude=refs/tags/*", "--all",
+    ]);
+  });
+
+  it("uses HEAD alone for current branch only", () => {
+    expect(buildRevisionArgs({ ...NO_FILTER, refs: ["refs/heads/main"], currentOnly: true }, refs)).toEqual(["HEAD"]);
+  });
+
+  it("starts from picked refs and refs matching a pattern", () => {
+    const args = buildRevisionArgs({ ...NO_FILTER, refs: ["refs/tags/v1.0"], globs: ["release/*"] }, refs);
+    expect(args).toEqual(["refs/heads/release/1.0", "refs/remotes/origin/release/2.0", "refs/tags/v1.0"]);
+  });
+
+  it("matches patterns against the remote-qualified name too", () => {
+    const args = buildRevisionArgs({ ...NO_FILTER, globs: ["origin/*"] }, refs);
+    expect(args).toEqual(["refs/remotes/origin/main"]);
+  });
+
+  it("drops hidden kinds from the matches", () => {
+    const args = buildRevisionArgs({ ...NO_FILTER, globs: ["**"], hideRemotes: true, hideTags: true }, refs);
+    expect(args).toEqual(["refs/heads/main", "refs/heads/release/1.0", "refs/heads/release/1.0/hotfix"]);
+  });
+
+  it("falls back to HEAD when nothing matches", () => {
+    expect(buildRevisionArgs({ ...NO_FILTER, refs: ["refs/heads/gone"] }, refs)).toEqual(["HEAD"]);
+  });
+});
+
+describe("describeFilter", () => {
+  it("is inactive and empty without a filter", () => {
+    expect(isFilterActive(NO_FILTER)).toBe(false);
+    expect(describeFilter(NO_FILTER)).toBe("");
+  });
+
+  it("lists picked refs by short name with the hidden kinds", () => {
+    const filter = { ...NO_FILTER, refs: ["refs/heads/main"], globs: ["release/*"], hideTags: true };
+    expect(isFilterActive(filter)).toBe(true);
+    expect(describeFilter(filter)).toBe("main, release/* · no tags");
+  });
+
+  it("counts long selections", () => {
+    const filter = { ...NO_FILTER, refs: ["refs/heads/a", "refs/heads/b", "refs/heads/c", "refs/heads/d"] };
+    expect(describeFilter(filter)).toBe("4 refs");
+  });
+});
@@ -1,10 +1,17 @@
 import { describe, it, expect } from "vitest";
-import { computeGraphLayout } from "../src/graph/layout.js";
+import { computeGraphLayout, createLayoutState } from "../src/graph/layout.js";
 import { BRANCH_COLORS } from "../src/graph/types.js";
-import type { Commit } from "../src/git/types.js";
+import { hashColor } from "../src/graph/colors.js";
+import { refFromFullName, type Commit } from "../src/git/types.js";
 
 function commit(hash: string, parents: string[] = []): Commit {
-  return { hash, parents, author: "A", email: "a@x", timestamp: 0, subject: hash, refs: [] };
+  return {
+    hash, parents,
+    author: "A", email: "a@x", timestamp: 0,
+    mailmapAuthor: "A", mailmapEmail: "a@x",
+    committer: "A", committerEmail: "a@x", commitTimestamp: 0,
+    treeHash: "t", subject: hash, refs: [],
+  };
 }
 
 describe("computeGraphLayout", () => {
@@ -23,9 +30,25 @@ describe("computeGraphLayout", () => {
     expect(rows.every((r) => r.numCols === 1)).toBe(true);
   });
 
-  it("assigns the first branch colour to the first tip", () => {
-    const rows = computeGraphLayout([commit("a")]);
-    expect(rows[0].commitColor).toBe(BRANCH_COLORS[0]);
+  it("colours a lane by the branch at its tip", () => {
+    const a = { ...commit("a", ["b"]), refs: [refFromFullName("refs/heads/topic")] };
+    const rows = computeGraphLayout([a, commit("b")]);
+    expect(rows[0].commitColor).toBe(hashColor("topic"));
+    expect(rows[1].commitColor).toBe(hashColor("topic"));
+  });
+
+  it("keeps lane colours when commits are added above", () => {
+    const main = { ...commit("m", ["g"]), refs: [refFromFullName("refs/heads/main")] };
+    const topic = { ...commit("t", ["g"]), refs: [refFromFullName("refs/heads/topic")] };
+    const before = computeGraphLayout([main, topic, commit("g")]);
+    const after = computeGraphLayout([commit("n", ["x"]), commit("x"), main, topic, commit("g")]);
+    expect(after.slice(2).map((r) => r.commitColor)).toEqual(before.map((r) => r.commitColor));
+  });
+
+  it("uses the configured colour for a matching branch", () => {
+    const rules = [{ pattern: "release/*", color: "#123456" }];
+    const r = { ...commit("r"), refs: [refFromFullName("refs/remotes/origin/release/1.0")] };
+    expect(computeGraphLayout([r], createLayoutState(rules))[0].commitColor).toBe("#123456");
   });
 
   it("opens a second lane for a merge commit's extra parent", () => {
@@ -57,4 +80,228 @@ describe("computeGraphLayout", () => {
       expect(BRANCH_COLORS).toContain(r.commitColor);
     }
   });
+
+  it("continues from saved lane state so paged layout matches a single pass", () => {
+    const history = [
+      commit("m", ["p1", "p2"]),
+      commit("t", ["p2"]),
+      commit("p1", ["g"]),
+      commit("p2", ["g"]),
+      commit("g", ["r"]),
+      commit("r"),
+    ];
+    const whole = computeGraphLayout(history);
+    const state = createLayoutState();
+    const paged = [
+      ...computeGraphLayout(history.slice(0, 2), state),
+      ...computeGraphLayout(history.slice(2, 4), state),
+      ...computeGraphLayout(history.slice(4), state),
+    ];
+    expect(paged).toEqual(whole);
+  });
+
+  it("colours a lane heading for a later page by the ref on the commit there", () => {
+    const topic = refFromFullName("refs/heads/topic");
+    const state = createLayoutState([], [], new Map([["p2", [topic]]]));
+    const [merge] = computeGraphLayout([commit("m", ["p1", "p2"])], state);
+    const [, p2] = computeGraphLayout([commit("p1", ["g"]), { ...commit("p2", ["g"]), refs: [topic] }], state);
+    expect(merge.segments.find((s) => s.botCol === 1)?.color).toBe(hashColor("topic"));
+    expect(p2.commitColor).toBe(hashColor("topic"));
+  });
+
+  it("links the uncommitted row to HEAD with a dashed lane and a hollow dot", () => {
+    const rows = computeGraphLayout([
+      { ...commit("wip", ["h"]), kind: "uncommitted" },
+      commit("x", ["h"]),
+      commit("h", ["r"]),
+      commit("r"),
+    ]);
+    const [wip, x, h] = rows;
+    expect(wip.dot).toBe("hollow");
+    expect(wip.segments).toEqual([{ topCol: 0, botCol: 0, color: wip.commitColor, half: "bottom", dashed: true }]);
+    // the dashed lane passes the unrelated row beside it
+    expect(x.segments.filter((s) => s.dashed)).toEqual([{ topCol: 0, botCol: 0, color: wip.commitColor, dashed: true }]);
+    // HEAD's row: dashed arriving from above, solid history continuing below
+    expect(h.commitCol).toBe(0);
+    expect(h.segments.filter((s) => s.topCol === 0 && s.botCol === 0)).toEqual([
+      { topCol: 0, botCol: 0, color: wip.commitColor, half: "top", dashed: true },
+      { topCol: 0, botCol: 0, color: wip.commitColor, half: "bottom" },
+    ]);
+    expect(rows.slice(3).every((r) => r.segments.every((s) => !s.dashed))).toBe(true);
+  });
+
+  it("moves the lanes right of one that ended left to close the gap", () => {
+    const [, y, z, m, r] = computeGraphLayout([
+      commit("x", ["m"]),
+      commit("y", ["m"]),
+      commit("z", ["r"]),
+      commit("m", ["r"]),
+      commit("r"),
+    ]);
+    expect(z.commitCol).toBe(2);
+    // y's lane ends at m; z's lane curves from column 2 into column 1
+    expect(m.segments).toContainEqual({ topCol: 2, botCol: 1, color: z.commitColor });
+    expect(m.segments).toContainEqual({ topCol: 1, botCol: 0, color: y.commitColor });
+    expect(r.segments).toContainEqual({ topCol: 1, botCol: 0, color: z.commitColor });
+    expect(r.numCols).toBe(2);
+  });
+});
+
+describe("computeGraphLayout with pinned lanes", () => {
+  // main: m1 → m2 → m3, develop: d1 → d2 → m3; topics x and y come and go around them
+  const history = [
+    commit("x1", ["m2"]),
+    commit("d1", ["d2"]),
+    commit("m1", ["m2", "y1"]),
+    commit("y1", ["d2"]),
+    commit("m2", ["m3"]),
+    commit("d2", ["m3"]),
+    commit("m3"),
+  ];
+
+  it("keeps each pinned tip's first-parent chain in its lane, with other branches to the right", () => {
+    const rows = computeGraphLayout(history, createLayoutState([], ["m1", "d1"]));
+    const col = (hash: string) => rows.find((r) => r.commitHash === hash)!.commitCol;
+    expect(["m1", "m2", "m3"].map(col)).toEqual([0, 0, 0]);
+    expect(["d1", "d2"].map(col)).toEqual([1, 1]);
+    expect(col("x1")).toBe(2);
+    expect(col("y1")).toBe(3);
+    // Nothing is drawn in a pinned lane above its tip
+    expect(rows[0].segments.every((s) => s.topCol >= 2 && s.botCol >= 2)).toBe(true);
+  });
+
+  it("lays out the same across pages", () => {
+    const whole = computeGraphLayout(history, createLayoutState([], ["m1", "d1"]));
+    const state = createLayoutState([], ["m1", "d1"]);
+    const paged = history.flatMap((c) => computeGraphLayout([c], state));
+    expect(paged).toEqual(whole);
+  });
+
+  it("never moves a pinned lane until it meets a lane pinned before it", () => {
+    const generated = generateHistory(2_000, 30);
+    const tips = [generated[0].hash, generated[40].hash, generated[300].hash];
+    const byHash = new Map(generated.map((c) => [c.hash, c]));
+    const rows = computeGraphLayout(generated, createLayoutState([], tips));
+    const colOf = new Map(rows.map((r) => [r.commitHash, r.commitCol]));
+    const claimed = new Set<string>();
+    tips.forEach((tip, lane) => {
+      for (let c = byHash.get(tip); c && !claimed.has(c.hash); c = byHash.get(c.parents[0])) {
+        expect(colOf.get(c.hash)).toBe(lane);
+        claimed.add(c.hash);
+      }
+    });
+  });
+
+  it("starts HEAD's pinned lane at the uncommitted row", () => {
+    const [wip, h] = computeGraphLayout([
+      { ...commit("wip", ["h"]), kind: "uncommitted" },
+      commit("h", ["g"]),
+      commit("g"),
+    ], createLayoutState([], ["h"]));
+    expect(wip.commitCol).toBe(0);
+    expect(h.commitCol).toBe(0);
+    expect(h.segments).toContainEqual({ topCol: 0, botCol: 0, color: wip.commitColor, half: "top", dashed: true });
+  });
+
+  it("keeps an ended pinned lane's column until the pinned lanes right of it end", () => {
+    const state = createLayoutState([], ["a", "b1"]);
+    const [, b1, c1, b2] = computeGraphLayout([
+      commit("a"),
+      commit("b1", ["b2"]),
+      commit("c1", ["b2"]),
+      commit("b2"),
+    ], state);
+    expect(b1.commitCol).toBe(1);
+    expect(c1.commitCol).toBe(2);
+    expect(b2.commitCol).toBe(1);
+    expect(state).toMatchObject({ lanes: [], pinnedLanes: 0 });
+  });
+});
+
+/**
+ * A repeatable topo-ordered history of `count` commits that keeps about
+ * `width` lanes open: commits branch off, merge in new lines and join lines
+ * that are already open. Every line ends within the history.
+ */
+function generateHistory(count: number, width: number, prefix = "c"): Commit[] {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  const pick = (list: string[]) => Math.floor(random() * list.length);
+  // Hashes a row above has as a parent, still to come
+  const open: string[] = [];
+  let nextHash = 0;
+  const commits: Commit[] = [];
+  while (commits.length < count) {
+    const rowsLeft = count - commits.length - 1;
+    const newTip = open.length === 0 || (open.length < rowsLeft && open.length < width && random() < 0.05);
+    const hash = newTip ? `${prefix}${nextHash++}` : open.splice(pick(open), 1)[0];
+    // New parents must still fit in the rows below, next to the open ones
+    let spare = rowsLeft - open.length;
+    const parents: string[] = [];
+    if (spare > 0 && !(open.length > 0 && random() < (open.length > width ? 0.3 : 0.05))) {
+      parents.push(`${prefix}${nextHash++}`);
+      spare--;
+    } else if (open.length > 0) {
+      parents.push(open[pick(open)]);
+    }
+    if (spare > 0 && parents.length > 0 && random() < (open.length < width ? 0.2 : 0.05)) {
+      parents.push(`${prefix}${nextHash++}`);
+    }
+    open.push(...parents.filter((p) => !open.includes(p)));
+    commits.push(commit(hash, parents));
+  }
+  return commits;
+}
+
+describe("computeGraphLayout on a large history", () => {
+  it("lays out 200k commits with hundreds of open lanes within the time budget", () => {
+    // A burst of ~1000 open lanes, then a long stretch with 100–200
+    const history = [...generateHistory(10_000, 1000, "a"), ...generateHistory(190_000, 100, "b")];
+    const start = performance.now();
+    const state = createLayoutState();
+    let maxCols = 0;
+    // Page by page as the graph loads it, so the rows needn't all be kept
+    for (let i = 0; i < history.length; i += 1000) {
+      for (const row of computeGraphLayout(history.slice(i, i + 1000), state)) {
+        maxCols = Math.max(maxCols, row.numCols);
+      }
+    }
+    const elapsed = performance.now() - start;
+    expect(maxCols).toBeGreaterThan(800);
+    expect(state.lanes).toEqual([]);
+    // About 4s on a slow single core; scanning every lane for every row took over 11s
+    expect(elapsed).toBeLessThan(8_000);
+  }, 60_000);
+
+  it("reads lanes in proportion to the segments it draws, however many are open", () => {
+    // A burst of ~500 open lanes, then a long stretch with 50–100
+    const history = [...generateHistory(3_000, 500, "a"), ...generateHistory(7_000, 50, "b")];
+    const state = createLayoutState();
+    // Count every read of a lane, wherever the layout looks one up
+    let reads = 0;
+    state.lanes = new Proxy(state.lanes, {
+      get(target, key, receiver) {
+        if (typeof key === "string" && /^\d+$/.test(key)) reads++;
+        return Reflect.get(target, key, receiver);
+      },
+    });
+    let rows = 0;
+    let segments = 0;
+    let maxCols = 0;
+    // Page by page as the graph loads it, so the rows needn't all be kept
+    for (let i = 0; i < history.length; i += 1000) {
+      for (const row of computeGraphLayout(history.slice(i, i + 1000), state)) {
+        rows++;
+        segments += row.segments.length;
+        maxCols = Math.max(maxCols, row.numCols);
+      }
+    }
+    expect(maxCols).toBeGreaterThan(400);
+    expect([...state.lanes]).toEqual([]);
+    // About 2 per segment; scanning every lane for every row read 11 here
+    expect(reads).toBeLessThan(3 * (segments + rows));
+  }, 60_000);
 });
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  abortArgs, buildMergeArgs, buildPickArgs, buildResetArgs, continueArgs, operationLabel, skipArgs, undoResetArgs,
+} from "../src/git/operation.js";
+
+describe("buildMergeArgs", () => {
+  it("keeps git's merge message without opening an editor", () => {
+    expect(buildMergeArgs("feature/x", "default")).toEqual(["merge", "--no-edit", "feature/x"]);
+    expect(buildMergeArgs("feature/x", "noFf")).toEqual(["merge", "--no-ff", "--no-edit", "feature/x"]);
+  });
+
+  it("only fast-forwards or squashes when asked to", () => {
+    expect(buildMergeArgs("origin/main", "ffOnly")).toEqual(["merge", "--ff-only", "origin/main"]);
+    expect(buildMergeArgs("v1.0", "squash")).toEqual(["merge", "--squash", "v1.0"]);
+  });
+});
+
+describe("buildPickArgs", () => {
+  const none = { recordOrigin: false, noCommit: false };
+
+  it("cherry-picks the commits in the order given", () => {
+    expect(buildPickArgs("cherryPick", ["a", "b"], none)).toEqual(["cherry-pick", "a", "b"]);
+  });
+
+  it("adds -x, --no-commit and the mainline when asked", () => {
+    expect(buildPickArgs("cherryPick", ["m"], { recordOrigin: true, noCommit: true, mainline: 2 }))
+      .toEqual(["cherry-pick", "-x", "--no-commit", "-m", "2", "m"]);
+  });
+
+  it("reverts with git's message, ignoring -x", () => {
+    expect(buildPickArgs("revert", ["b", "a"], { ...none, recordOrigin: true })).toEqual(["revert", "--no-edit", "b", "a"]);
+    expect(buildPickArgs("revert", ["a"], { ...none, noCommit: true })).toEqual(["revert", "--no-edit", "--no-commit", "a"]);
+  });
+});
+
+describe("buildResetArgs / undoResetArgs", () => {
+  it("resets to the target in the chosen mode", () => {
+    expect(buildResetArgs("mixed", "abc")).toEqual(["reset", "--mixed", "abc"]);
+    expect(buildResetArgs("hard", "abc")).toEqual(["reset", "--hard", "abc"]);
+  });
+
+  it("undoes a reset in the same mode, keeping changes made since a hard one", () => {
+    expect(undoResetArgs("soft", "old")).toEqual(["reset", "--soft", "old"]);
+    expect(undoResetArgs("hard", "old")).toEqual(["reset", "--keep", "old"]);
+  });
+});
+
+describe("continueArgs / skipArgs / abortArgs", () => {
+  it("commits the prepared message to continue", () => {
+    expect(continueArgs({ kind: "merge", squash: false })).toEqual(["commit", "--no-edit"]);
+    expect(continueArgs({ kind: "merge", squash: true })).toEqual(["commit", "--no-edit"]);
+  });
+
+  it("aborts a squash merge, which has no MERGE_HEAD, with reset --merge", () => {
+    expect(abortArgs({ kind: "merge", squash: false })).toEqual(["merge", "--abort"]);
+    expect(abortArgs({ kind: "merge", squash: true })).toEqual(["reset", "--merge"]);
+  });
+
+  it("continues, skips and aborts a rebase with git rebase", () => {
+    const rebase = { kind: "rebase" as const };
+    expect(operationLabel(rebase)).toBe("Rebase");
+    expect(continueArgs(rebase)).toEqual(["rebase", "--continue"]);
+    expect(skipArgs(rebase)).toEqual(["rebase", "--skip"]);
+    expect(abortArgs(rebase)).toEqual(["rebase", "--abort"]);
+  });
+
+  it("has no commit to skip in a merge", () => {
+    expect(skipArgs({ kind: "merge", squash: false })).toBeUndefined();
+  });
+
+  it("continues, skips and aborts a cherry-pick or revert with its own command", () => {
+    expect(operationLabel({ kind: "cherryPick" })).toBe("Cherry-Pick");
+    expect(continueArgs({ kind: "cherryPick" })).toEqual(["cherry-pick", "--continue"]);
+    expect(skipArgs({ kind: "revert" })).toEqual(["revert", "--skip"]);
+    expect(abortArgs({ kind: "revert" })).toEqual(["revert", "--abort"]);
+  });
+});
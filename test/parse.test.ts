@@ -1,116 +1,405 @@
 import { describe, it, expect } from "vitest";
-import { parseRefs } from "../src/git/types.js";
-import { parseLogOutput } from "../src/git/parser.js";
+import { isCurrentCommit, parseRefs, refLabel } from "../src/git/types.js";
+import {
+  insertStashes, parseFileHistoryOutput, parseLogOutput, parseReflogOutput, parseRefTips, parseStashOutput,
+  parseTrackingOutput,
+} from "../src/git/parser.js";
 
 describe("parseRefs", () => {
+  const head = { name: "HEAD", type: "head", fullName: "HEAD", shortName: "HEAD", isLocal: true };
+  const branch = (name: string) =>
+    ({ name, type: "branch", fullName: `refs/heads/${name}`, shortName: name, isLocal: true });
+  const tag = (name: string) =>
+    ({ name, type: "tag", fullName: `refs/tags/${name}`, shortName: name, isLocal: true });
+  const remote = (remoteName: string, shortName: string) => ({
+    name: `${remoteName}/${shortName}`, type: "remote", fullName: `refs/remotes/${remoteName}/${shortName}`,
+    shortName, remote: remoteName, isLocal: false,
+  });
+
   it("returns [] for empty or whitespace input", () => {
     expect(parseRefs("")).toEqual([]);
     expect(parseRefs("   ")).toEqual([]);
   });
 
   it("splits 'HEAD -> branch' into a head ref and a branch ref", () => {
-    expect(parseRefs("HEAD -> main")).toEqual([
-      { name: "HEAD", type: "head" },
-      { name: "main", type: "branch" },
-    ]);
+    expect(parseRefs("HEAD -> refs/heads/main")).toEqual([head, branch("main")]);
   });
 
-  it("classifies a bare HEAD", () => {
-    expect(parseRefs("HEAD")).toEqual([{ name: "HEAD", type: "head" }]);
+  it("classifies a bare (detached) HEAD", () => {
+    expect(parseRefs("HEAD")).toEqual([head]);
   });
 
   it("classifies tags via the 'tag: ' prefix", () => {
-    expect(parseRefs("tag: v1.2.0")).toEqual([{ name: "v1.2.0", type: "tag" }]);
+    expect(parseRefs("tag: refs/tags/v1.2.0")).toEqual([tag("v1.2.0")]);
+  });
+
+  it("classifies remote-tracking refs and records the remote", () => {
+    expect(parseRefs("refs/remotes/origin/main")).toEqual([remote("origin", "main")]);
+  });
+
+  it("keeps slashed local branch names local", () => {
+    expect(parseRefs("refs/heads/feature/foo, refs/heads/fix/bar")).toEqual([
+      branch("feature/foo"),
+      branch("fix/bar"),
+    ]);
+  });
+
+  it("splits slashed branch names on remote-tracking refs at the remote", () => {
+    expect(parseRefs("refs/remotes/upstream/feature/foo")).toEqual([remote("upstream", "feature/foo")]);
   });
 
-  it("treats names containing a slash as remotes", () => {
-    expect(parseRefs("origin/main")).toEqual([{ name: "origin/main", type: "remote" }]);
+  it("prefers the longest known remote name when remotes contain slashes", () => {
+    expect(parseRefs("refs/remotes/corp/eu/main", ["corp", "corp/eu"])).toEqual([remote("corp/eu", "main")]);
   });
 
-  it("treats a plain name as a local branch", () => {
-    expect(parseRefs("feature")).toEqual([{ name: "feature", type: "branch" }]);
+  it("distinguishes the same branch on several remotes", () => {
+    expect(parseRefs("refs/remotes/origin/dev, refs/remotes/fork/dev", ["origin", "fork"])).toEqual([
+      remote("origin", "dev"),
+      remote("fork", "dev"),
+    ]);
+  });
+
+  it("classifies the stash ref and unknown namespaces", () => {
+    expect(parseRefs("refs/stash, refs/pull/12/head")).toEqual([
+      { name: "stash", type: "stash", fullName: "refs/stash", shortName: "stash", isLocal: true },
+      { name: "pull/12/head", type: "other", fullName: "refs/pull/12/head", shortName: "pull/12/head", isLocal: true },
+    ]);
   });
 
   it("parses a comma-separated mix and trims whitespace", () => {
-    expect(parseRefs("HEAD -> main, origin/main, tag: v1.0")).toEqual([
-      { name: "HEAD", type: "head" },
-      { name: "main", type: "branch" },
-      { name: "origin/main", type: "remote" },
-      { name: "v1.0", type: "tag" },
+    expect(parseRefs("HEAD -> refs/heads/main, refs/remotes/origin/main, tag: refs/tags/v1.0")).toEqual([
+      head,
+      branch("main"),
+      remote("origin", "main"),
+      tag("v1.0"),
+    ]);
+  });
+
+  it("leaves out symbolic remote HEADs", () => {
+    expect(parseRefs("refs/heads/main, refs/remotes/origin/HEAD, refs/remotes/origin/main")).toEqual([
+      branch("main"),
+      remote("origin", "main"),
     ]);
   });
 
   it("skips empty entries between commas", () => {
-    expect(parseRefs("main, , origin/main")).toEqual([
-      { name: "main", type: "branch" },
-      { name: "origin/main", type: "remote" },
+    expect(parseRefs("refs/heads/main, , refs/remotes/origin/main")).toEqual([
+      branch("main"),
+      remote("origin", "main"),
     ]);
   });
 });
 
 describe("parseLogOutput", () => {
-  const line = (parts: string[]) => parts.join("|");
+  // One record per commit: NUL-separated fields, terminated by a record
+  // separator and the newline git appends after each formatted commit.
+  interface Fields {
+    hash?: string;
+    parents?: string;
+    author?: string;
+    email?: string;
+    mailmapAuthor?: string;
+    mailmapEmail?: string;
+    time?: string;
+    committer?: string;
+    committerEmail?: string;
+    commitTime?: string;
+    tree?: string;
+    subject?: string;
+    refs?: string;
+  }
+  const record = (f: Fields = {}) =>
+    [
+      f.hash ?? "h",
+      f.parents ?? "p",
+      f.author ?? "A",
+      f.email ?? "a@x",
+      f.mailmapAuthor ?? f.author ?? "A",
+      f.mailmapEmail ?? f.email ?? "a@x",
+      f.time ?? "100",
+      f.committer ?? "C",
+      f.committerEmail ?? "c@x",
+      f.commitTime ?? "200",
+      f.tree ?? "t1",
+      f.subject ?? "Subject",
+      f.refs ?? "",
+    ].join("\x00") + "\x1e\n";
 
   it("returns [] for empty output", () => {
     expect(parseLogOutput("")).toEqual([]);
     expect(parseLogOutput("\n  \n")).toEqual([]);
   });
 
-  it("parses a single commit with an empty refs field", () => {
-    const out = line(["abc123", "def456", "Ada", "ada@x.dev", "1700000000", "Initial commit", ""]);
-    const commits = parseLogOutput(out);
-    expect(commits).toHaveLength(1);
-    expect(commits[0]).toEqual({
+  it("parses every field of a single commit", () => {
+    const out = record({
+      hash: "abc123", parents: "def456",
+      author: "ada", email: "ada@old.dev",
+      mailmapAuthor: "Ada Lovelace", mailmapEmail: "ada@x.dev",
+      time: "1700000000",
+      committer: "Bot", committerEmail: "bot@x.dev", commitTime: "1700000500",
+      tree: "9f8e7d6", subject: "Initial commit",
+    });
+    expect(parseLogOutput(out)).toEqual([{
       hash: "abc123",
       parents: ["def456"],
-      author: "Ada",
-      email: "ada@x.dev",
+      author: "ada",
+      email: "ada@old.dev",
       timestamp: 1700000000,
+      mailmapAuthor: "Ada Lovelace",
+      mailmapEmail: "ada@x.dev",
+      committer: "Bot",
+      committerEmail: "bot@x.dev",
+      commitTimestamp: 1700000500,
+      treeHash: "9f8e7d6",
       subject: "Initial commit",
       refs: [],
-    });
+    }]);
   });
 
   it("parses refs from the trailing field", () => {
-    const out = line(["h", "p", "A", "a@x", "100", "Subject", "HEAD -> main, tag: v1.0"]);
-    expect(parseLogOutput(out)[0].refs).toEqual([
-      { name: "HEAD", type: "head" },
-      { name: "main", type: "branch" },
-      { name: "v1.0", type: "tag" },
+    const out = record({ refs: "HEAD -> refs/heads/main, tag: refs/tags/v1.0" });
+    expect(parseLogOutput(out)[0].refs.map((r) => [r.type, r.name])).toEqual([
+      ["head", "HEAD"],
+      ["branch", "main"],
+      ["tag", "v1.0"],
     ]);
   });
 
+  it("uses the given remotes to classify remote-tracking refs", () => {
+    const out = record({ refs: "refs/remotes/corp/eu/main" });
+    expect(parseLogOutput(out, ["corp/eu"])[0].refs[0]).toMatchObject({ remote: "corp/eu", shortName: "main" });
+  });
+
   it("splits multiple parents on space", () => {
-    const out = line(["m", "p1 p2 p3", "A", "a@x", "100", "Merge", ""]);
-    expect(parseLogOutput(out)[0].parents).toEqual(["p1", "p2", "p3"]);
+    expect(parseLogOutput(record({ parents: "p1 p2 p3" }))[0].parents).toEqual(["p1", "p2", "p3"]);
   });
 
   it("treats a root commit (no parents) as an empty parents array", () => {
-    const out = line(["root", "", "A", "a@x", "100", "Root", ""]);
-    expect(parseLogOutput(out)[0].parents).toEqual([]);
+    expect(parseLogOutput(record({ parents: "" }))[0].parents).toEqual([]);
   });
 
-  it("preserves pipe characters inside the subject when refs follow", () => {
-    const out = line(["h", "p", "A", "a@x", "100", "feat: a | b | c", "HEAD -> main"]);
-    const c = parseLogOutput(out)[0];
+  it("keeps pipe characters in the subject", () => {
+    const c = parseLogOutput(record({ subject: "feat: a | b | c", refs: "HEAD -> refs/heads/main" }))[0];
     expect(c.subject).toBe("feat: a | b | c");
-    expect(c.refs).toEqual([
-      { name: "HEAD", type: "head" },
-      { name: "main", type: "branch" },
-    ]);
+    expect(c.refs.map((r) => r.name)).toEqual(["HEAD", "main"]);
+  });
+
+  it("keeps pipes in author names without shifting later fields", () => {
+    const c = parseLogOutput(record({ author: "Ada | Team", subject: "Fix", refs: "refs/heads/main" }))[0];
+    expect(c.author).toBe("Ada | Team");
+    expect(c.subject).toBe("Fix");
+    expect(c.refs.map((r) => r.name)).toEqual(["main"]);
+  });
+
+  it("handles empty subject, email and ref fields", () => {
+    const c = parseLogOutput(record({ email: "", mailmapEmail: "", subject: "", refs: "" }))[0];
+    expect(c.email).toBe("");
+    expect(c.subject).toBe("");
+    expect(c.refs).toEqual([]);
+    expect(c.treeHash).toBe("t1");
+  });
+
+  it("preserves leading and trailing whitespace and unicode in the subject", () => {
+    const c = parseLogOutput(record({ subject: "  ünïcødé — ✓ ", author: "Zoë" }))[0];
+    expect(c.subject).toBe("  ünïcødé — ✓ ");
+    expect(c.author).toBe("Zoë");
+  });
+
+  it("exposes the mailmap-resolved identity separately from the raw one", () => {
+    const c = parseLogOutput(record({ author: "old", email: "old@x", mailmapAuthor: "New", mailmapEmail: "new@x" }))[0];
+    expect([c.author, c.email]).toEqual(["old", "old@x"]);
+    expect([c.mailmapAuthor, c.mailmapEmail]).toEqual(["New", "new@x"]);
+  });
+
+  it("parses multiple records, with or without a trailing separator", () => {
+    const out = record({ hash: "h1", parents: "h2" }) + record({ hash: "h2", parents: "" }).replace("\x1e\n", "");
+    expect(parseLogOutput(out).map((c) => c.hash)).toEqual(["h1", "h2"]);
+  });
+
+  it("skips blank records between separators", () => {
+    const out = record({ hash: "h1" }) + "\x1e\n" + record({ hash: "h2" });
+    expect(parseLogOutput(out).map((c) => c.hash)).toEqual(["h1", "h2"]);
+  });
+
+  it("skips records with missing fields", () => {
+    expect(parseLogOutput("too\x00few\x00fields\x1e\n")).toEqual([]);
+  });
+
+  it("attaches upstream status to local branches only", () => {
+    const tracking = parseTrackingOutput("refs/heads/main\x00origin/main\x00[behind 1]\n");
+    const out = record({ refs: "HEAD -> refs/heads/main, refs/remotes/origin/main" });
+    const [head, main, remote] = parseLogOutput(out, ["origin"], tracking)[0].refs;
+    expect(head.tracking).toBeUndefined();
+    expect(main.tracking).toEqual({ upstream: "origin/main", ahead: 0, behind: 1, gone: false });
+    expect(remote.tracking).toBeUndefined();
+  });
+});
+
+describe("parseTrackingOutput", () => {
+  it("reads ahead and behind counts, level branches and gone upstreams", () => {
+    const out = [
+      "refs/heads/main\x00origin/main\x00[ahead 2, behind 5]",
+      "refs/heads/ahead\x00origin/ahead\x00[ahead 3]",
+      "refs/heads/level\x00origin/level\x00",
+      "refs/heads/old\x00origin/old\x00[gone]",
+      "",
+    ].join("\n");
+    const tracking = parseTrackingOutput(out);
+    expect(tracking.get("refs/heads/main")).toEqual({ upstream: "origin/main", ahead: 2, behind: 5, gone: false });
+    expect(tracking.get("refs/heads/ahead")).toEqual({ upstream: "origin/ahead", ahead: 3, behind: 0, gone: false });
+    expect(tracking.get("refs/heads/level")).toEqual({ upstream: "origin/level", ahead: 0, behind: 0, gone: false });
+    expect(tracking.get("refs/heads/old")).toEqual({ upstream: "origin/old", ahead: 0, behind: 0, gone: true });
+  });
+
+  it("leaves out branches without an upstream", () => {
+    expect(parseTrackingOutput("refs/heads/local\x00\x00\n").size).toBe(0);
   });
+});
 
-  it("parses multiple lines and skips blank ones", () => {
+describe("parseRefTips", () => {
+  it("groups the refs by the commit they point at, annotated tags by the commit they tag", () => {
     const out = [
-      line(["h1", "h2", "A", "a@x", "100", "one", ""]),
+      "refs/heads/main\x00aaa\x00",
+      "refs/remotes/origin/main\x00aaa\x00",
+      "refs/remotes/origin/HEAD\x00aaa\x00",
+      "refs/tags/v1\x00ttt\x00bbb",
       "",
-      line(["h2", "", "B", "b@x", "200", "two", ""]),
     ].join("\n");
-    const commits = parseLogOutput(out);
-    expect(commits.map((c) => c.hash)).toEqual(["h1", "h2"]);
+    const tips = parseRefTips(out, ["origin"]);
+    expect(tips.get("aaa")?.map((r) => r.name)).toEqual(["main", "origin/main"]);
+    expect(tips.get("bbb")?.map((r) => r.name)).toEqual(["v1"]);
+    expect(tips.has("ttt")).toBe(false);
+  });
+});
+
+describe("refLabel", () => {
+  const main = parseRefs("refs/heads/main")[0];
+  const tracking = { upstream: "origin/main", ahead: 0, behind: 0, gone: false };
+
+  it("shows ahead and behind counts after the name", () => {
+    expect(refLabel({ ...main, tracking: { ...tracking, ahead: 2, behind: 5 } })).toBe("main ↑2 ↓5");
+    expect(refLabel({ ...main, tracking: { ...tracking, behind: 1 } })).toBe("main ↓1");
+  });
+
+  it("shows just the name when level with the upstream, or without one", () => {
+    expect(refLabel({ ...main, tracking })).toBe("main");
+    expect(refLabel(main)).toBe("main");
+  });
+
+  it("marks a branch whose upstream is gone", () => {
+    expect(refLabel({ ...main, tracking: { ...tracking, gone: true } })).toBe("main [gone]");
+  });
+});
+
+describe("parseStashOutput", () => {
+  // Log fields followed by the reflog selector
+  const stash = (hash: string, parents: string, selector: string, subject: string) =>
+    [hash, parents, "A", "a@x", "A", "a@x", "100", "A", "a@x", "100", "t", subject, "refs/stash", selector].join("\x00") + "\x1e\n";
+
+  it("keeps only the base parent and tags each entry with its selector", () => {
+    const out = stash("s0", "base idx untracked", "stash@{0}", "WIP on main: abc fix") + stash("s1", "old idx", "stash@{1}", "On dev: try");
+    const stashes = parseStashOutput(out);
+    expect(stashes.map((s) => [s.hash, s.parents, s.kind, s.subject])).toEqual([
+      ["s0", ["base"], "stash", "WIP on main: abc fix"],
+      ["s1", ["old"], "stash", "On dev: try"],
+    ]);
+    expect(stashes[1].refs).toEqual([
+      { name: "stash@{1}", type: "stash", fullName: "refs/stash", shortName: "stash@{1}", isLocal: true },
+    ]);
+  });
+
+  it("returns [] when there are no stashes", () => {
+    expect(parseStashOutput("")).toEqual([]);
+  });
+});
+
+describe("parseReflogOutput", () => {
+  // Log fields followed by the reflog selector and message
+  const entry = (hash: string, parents: string, selector: string, message: string) =>
+    [hash, parents, "A", "a@x", "A", "a@x", "100", "A", "a@x", "100", "t", `msg ${hash}`, "", selector, message].join("\x00") + "\x1e\n";
+
+  it("joins each position to the next older one and shows the reflog message", () => {
+    const out = entry("c", "b", "HEAD@{0}", "reset: moving to HEAD~1")
+      + entry("d", "c", "HEAD@{1}", "commit: d")
+      + entry("c", "b", "HEAD@{2}", "checkout: moving from dev to main");
+    const entries = parseReflogOutput(out);
+    expect(entries.map((e) => [e.hash, e.parents, e.subject])).toEqual([
+      ["c", ["d"], "reset: moving to HEAD~1"],
+      ["d", ["c"], "commit: d"],
+      ["c", [], "checkout: moving from dev to main"],
+    ]);
+    expect(entries[1].refs).toEqual([
+      { name: "HEAD@{1}", type: "reflog", fullName: "HEAD@{1}", shortName: "HEAD@{1}", isLocal: true },
+    ]);
+  });
+
+  it("returns [] for an empty reflog", () => {
+    expect(parseReflogOutput("")).toEqual([]);
+  });
+});
+
+describe("insertStashes", () => {
+  // Whole commits, read from log output like the graph's own
+  const c = (hash: string, parents: string[] = []) => parseLogOutput(
+    [hash, parents.join(" "), "A", "a@x", "A", "a@x", "100", "A", "a@x", "100", "t", `msg ${hash}`, ""].join("\x00") + "\x1e\n"
+  )[0];
+
+  it("places each stash directly above its base, newest first", () => {
+    const { commits, pending } = insertStashes(
+      [c("a", ["b"]), c("b", ["c"]), c("c")],
+      [c("s0", ["b"]), c("s1", ["c"]), c("s2", ["b"])],
+    );
+    expect(commits.map((x) => x.hash)).toEqual(["a", "s0", "s2", "b", "s1", "c"]);
+    expect(pending).toEqual([]);
+  });
+
+  it("returns stashes whose base isn't loaded yet as pending", () => {
+    const { commits, pending } = insertStashes([c("a", ["b"])], [c("s0", ["z"])]);
+    expect(commits.map((x) => x.hash)).toEqual(["a"]);
+    expect(pending.map((x) => x.hash)).toEqual(["s0"]);
+  });
+});
+
+describe("parseFileHistoryOutput", () => {
+  // `git log -z --name-status`: the record separator leads, the -z name-status
+  // entries follow the format fields
+  const entry = (hash: string, parents: string, ...nameStatus: string[]) =>
+    "\x1e" + [hash, parents, "A", "a@x", "A", "a@x", "100", "A", "a@x", "100", "t", `msg ${hash}`, ""].join("\x00")
+    + "\x00" + (nameStatus.length ? "\n" + nameStatus.map((t) => `${t}\x00`).join("") : "");
+
+  it("reads each commit with its change to the file", () => {
+    const out = entry("c3", "c2", "R100", "old.ts", "new.ts") + entry("c2", "c1", "M", "old.ts") + entry("c1", "", "A", "old.ts");
+    expect(parseFileHistoryOutput(out).map((e) => [e.commit.hash, e.commit.parents, e.file])).toEqual([
+      ["c3", ["c2"], { status: "R", path: "new.ts", oldPath: "old.ts" }],
+      ["c2", ["c1"], { status: "M", path: "old.ts" }],
+      ["c1", [], { status: "A", path: "old.ts" }],
+    ]);
+  });
+
+  it("leaves the file undefined for a merge listed without a diff", () => {
+    const out = entry("m", "a b") + entry("a", "r", "M", "f.ts");
+    const entries = parseFileHistoryOutput(out);
+    expect(entries[0].file).toBeUndefined();
+    expect(entries[1].file).toEqual({ status: "M", path: "f.ts" });
+  });
+
+  it("keeps paths with spaces and tabs intact", () => {
+    const out = entry("c1", "", "A", "dir/a\tb c.ts");
+    expect(parseFileHistoryOutput(out)[0].file?.path).toBe("dir/a\tb c.ts");
+  });
+});
+
+describe("isCurrentCommit", () => {
+  const commit = (refs: string) => parseLogOutput(`h\x00\x00A\x00a\x00A\x00a\x001\x00C\x00c\x001\x00t\x00S\x00${refs}\x1e`)[0];
+
+  it("finds the checked-out branch's commit", () => {
+    expect(isCurrentCommit(commit("HEAD -> refs/heads/main"), "main")).toBe(true);
+    expect(isCurrentCommit(commit("refs/heads/main"), "main")).toBe(true);
+    expect(isCurrentCommit(commit("refs/heads/other"), "main")).toBe(false);
   });
 
-  it("skips lines with fewer than 6 fields", () => {
-    expect(parseLogOutput("too|few|fields")).toEqual([]);
+  it("finds the commit a detached HEAD is on", () => {
+    expect(isCurrentCommit(commit("HEAD, refs/heads/main"), "HEAD")).toBe(true);
+    expect(isCurrentCommit(commit("refs/heads/main"), "HEAD")).toBe(false);
   });
 });
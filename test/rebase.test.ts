@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { buildGitTodo, formatTodo, parseTodo, shellQuote, type TodoEntry } from "../src/git/rebase.js";
+
+const commits: TodoEntry[] = [
+  { action: "pick", hash: "1111111111aaaa", subject: "Add parser" },
+  { action: "pick", hash: "2222222222bbbb", subject: "Fix typo" },
+  { action: "pick", hash: "3333333333cccc", subject: "Add tests" },
+];
+
+describe("formatTodo", () => {
+  it("lists the commits oldest first below commented instructions", () => {
+    const lines = formatTodo(commits, "Rebase main onto v1.0").split("\n");
+    expect(lines[0]).toBe("# Rebase main onto v1.0");
+    expect(lines.filter((l) => l && !l.startsWith("#"))).toEqual([
+      "pick 1111111111 Add parser",
+      "pick 2222222222 Fix typo",
+      "pick 3333333333 Add tests",
+    ]);
+  });
+
+  it("reads back as the same commits", () => {
+    expect(parseTodo(formatTodo(commits, "Rebase"), commits)).toEqual(commits);
+  });
+});
+
+describe("parseTodo", () => {
+  it("accepts abbreviated actions, reordering and a new reword subject", () => {
+    const entries = parseTodo("r 3333 Add parser tests\np 1111 Add parser\nf 2222\n", commits);
+    expect(entries).toEqual([
+      { action: "reword", hash: "3333333333cccc", subject: "Add parser tests" },
+      { action: "pick", hash: "1111111111aaaa", subject: "Add parser" },
+      { action: "fixup", hash: "2222222222bbbb", subject: "" },
+    ]);
+  });
+
+  it("drops the commits whose line was removed", () => {
+    const entries = parseTodo("pick 1111\nsquash 3333\n", commits);
+    expect(entries.map((e) => [e.action, e.hash])).toEqual([
+      ["pick", "1111111111aaaa"],
+      ["squash", "3333333333cccc"],
+      ["drop", "2222222222bbbb"],
+    ]);
+  });
+
+  it("is empty when every line was removed", () => {
+    expect(parseTodo("# nothing left\n", commits)).toEqual([]);
+  });
+
+  it("reports the line of an unknown action or commit", () => {
+    expect(() => parseTodo("pick 1111\nedit 2222\n", commits)).toThrow('Line 2: unknown action "edit"');
+    expect(() => parseTodo("\npick 9999\n", commits)).toThrow('Line 2: "9999" is not one of the commits being rebased');
+    expect(() => parseTodo("pick 1111\npick 1111\n", commits)).toThrow("Line 2: 1111 is listed twice");
+  });
+
+  it("rejects a squash with nothing before it to combine with", () => {
+    expect(() => parseTodo("drop 1111\nfixup 2222\n", commits)).toThrow("Line 2: fixup needs an earlier commit");
+  });
+
+  it("needs a subject to reword to", () => {
+    expect(() => parseTodo("reword 1111\n", commits)).toThrow("reword needs the new subject");
+  });
+});
+
+describe("buildGitTodo", () => {
+  it("uses full hashes and amends reworded commits from their message file", () => {
+    const entries = parseTodo("pick 1111\nreword 2222 Fix typo in parser\ndrop 3333\n", commits);
+    const todo = buildGitTodo(entries, new Map([["2222222222bbbb", "/tmp/it's.msg"]]));
+    expect(todo).toBe([
+      "pick 1111111111aaaa",
+      "pick 2222222222bbbb",
+      "exec git commit --amend --no-verify --allow-empty -F '/tmp/it'\\''s.msg'",
+      "drop 3333333333cccc",
+      "",
+    ].join("\n"));
+  });
+});
+
+describe("shellQuote", () => {
+  it("single-quotes, escaping embedded quotes", () => {
+    expect(shellQuote("a b")).toBe("'a b'");
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+  });
+});
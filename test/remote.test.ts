@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  buildFetchArgs, buildPullArgs, buildPushArgs, loadUpstream, parseProgressLine, runRemoteGit, type GitProgress,
+} from "../src/git/remote.js";
+
+describe("parseProgressLine", () => {
+  it("reads the phase and percentage", () => {
+    expect(parseProgressLine("Receiving objects:  45% (9/20), 1.20 MiB | 2.00 MiB/s"))
+      .toEqual({ phase: "Receiving objects", percent: 45 });
+    expect(parseProgressLine("Writing objects: 100% (3/3), 250 bytes | 250.00 KiB/s, done."))
+      .toEqual({ phase: "Writing objects", percent: 100 });
+  });
+
+  it("reads progress relayed from the remote", () => {
+    expect(parseProgressLine("remote: Compressing objects:  50% (1/2)")).toEqual({ phase: "Compressing objects", percent: 50 });
+  });
+
+  it("ignores everything else", () => {
+    expect(parseProgressLine("From /tmp/origin")).toBeUndefined();
+    expect(parseProgressLine(" * [new branch]      main       -> origin/main")).toBeUndefined();
+    expect(parseProgressLine("error: failed to push some refs to 'origin'")).toBeUndefined();
+  });
+});
+
+describe("buildFetchArgs / buildPullArgs / buildPushArgs", () => {
+  it("fetches all remotes or one, pruning when asked", () => {
+    expect(buildFetchArgs({ prune: false })).toEqual(["fetch", "--progress", "--all"]);
+    expect(buildFetchArgs({ remote: "upstream", prune: true })).toEqual(["fetch", "--progress", "upstream", "--prune"]);
+  });
+
+  it("pulls the upstream, or a named remote branch, by merge or rebase", () => {
+    expect(buildPullArgs("merge")).toEqual(["pull", "--progress", "--no-rebase", "--no-edit"]);
+    expect(buildPullArgs("rebase", { remote: "origin", branch: "main" })).toEqual(["pull", "--progress", "--rebase", "origin", "main"]);
+  });
+
+  it("pushes the branch, setting its upstream or forcing with lease when asked", () => {
+    expect(buildPushArgs("origin", "main", { setUpstream: false, forceWithLease: false }))
+      .toEqual(["push", "--progress", "origin", "refs/heads/main"]);
+    expect(buildPushArgs("origin", "feature/x", { setUpstream: true, forceWithLease: true }))
+      .toEqual(["push", "--progress", "--set-upstream", "--force-with-lease", "origin", "refs/heads/feature/x"]);
+  });
+
+  it("pushes to an upstream branch of another name", () => {
+    expect(buildPushArgs("origin", "topic", { setUpstream: false, forceWithLease: false }, "feature/topic"))
+      .toEqual(["push", "--progress", "origin", "refs/heads/topic:refs/heads/feature/topic"]);
+  });
+});
+
+// Two clones of a local bare repository standing in for the remote
+describe("against a local bare repository", () => {
+  let root: string;
+  let alice: string;
+  let bob: string;
+  const env = {
+    GIT_AUTHOR_NAME: "Test", GIT_AUTHOR_EMAIL: "test@example.com",
+    GIT_COMMITTER_NAME: "Test", GIT_COMMITTER_EMAIL: "test@example.com",
+  };
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync("git", args, { cwd, env: { ...process.env, ...env }, stdio: "pipe" }).toString().trim();
+  const commit = (cwd: string, file: string) => {
+    writeFileSync(path.join(cwd, file), file);
+    git(cwd, "add", file);
+    git(cwd, "commit", "-m", file);
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), "boomergit-remote-"));
+    git(root, "init", "--bare", "-b", "main", "origin.git");
+    git(root, "clone", "origin.git", "alice");
+    alice = path.join(root, "alice");
+    git(alice, "symbolic-ref", "HEAD", "refs/heads/main");
+    commit(alice, "a.txt");
+    git(alice, "push", "-u", "origin", "main");
+    git(root, "clone", "origin.git", "bob");
+    bob = path.join(root, "bob");
+  });
+
+  afterEach(() => rmSync(root, { recursive: true, force: true }));
+
+  it("pushes a new branch and sets its upstream", async () => {
+    git(alice, "checkout", "-b", "feature");
+    commit(alice, "b.txt");
+    expect(await loadUpstream(alice, "feature")).toBeUndefined();
+    await runRemoteGit(alice, buildPushArgs("origin", "feature", { setUpstream: true, forceWithLease: false }));
+    expect(await loadUpstream(alice, "feature")).toEqual({ remote: "origin", branch: "feature" });
+    expect(git(root, "--git-dir=origin.git", "rev-parse", "feature")).toBe(git(alice, "rev-parse", "HEAD"));
+  });
+
+  it("reports progress while fetching", async () => {
+    commit(alice, "b.txt");
+    git(alice, "push");
+    const progress: GitProgress[] = [];
+    await runRemoteGit(bob, buildFetchArgs({ prune: false }), (p) => progress.push(p));
+    expect(git(bob, "rev-parse", "origin/main")).toBe(git(alice, "rev-parse", "HEAD"));
+    expect(progress.length).toBeGreaterThan(0);
+  });
+
+  it("prunes remote-tracking branches deleted on the remote", async () => {
+    git(alice, "push", "origin", "main:gone");
+    git(bob, "fetch");
+    git(alice, "push", "origin", "--delete", "gone");
+    await runRemoteGit(bob, buildFetchArgs({ remote: "origin", prune: true }));
+    expect(git(bob, "branch", "-r")).not.toContain("origin/gone");
+  });
+
+  it("pulls the upstream by merge or rebase", async () => {
+    commit(alice, "b.txt");
+    git(alice, "push");
+    commit(bob, "c.txt");
+    await runRemoteGit(bob, buildPullArgs("rebase"), undefined, env);
+    expect(git(bob, "rev-parse", "HEAD~1")).toBe(git(alice, "rev-parse", "HEAD"));
+    commit(alice, "d.txt");
+    git(alice, "push");
+    await runRemoteGit(bob, buildPullArgs("merge"), undefined, env);
+    expect(git(bob, "rev-parse", "HEAD^2")).toBe(git(alice, "rev-parse", "HEAD"));
+  });
+
+  it("rejects a diverged push with git's error, and forces it with lease", async () => {
+    commit(alice, "b.txt");
+    git(alice, "push");
+    git(bob, "fetch");
+    commit(bob, "c.txt");
+    const push = (forceWithLease: boolean) =>
+      runRemoteGit(bob, buildPushArgs("origin", "main", { setUpstream: false, forceWithLease }));
+    await expect(push(false)).rejects.toThrow(/rejected/);
+    await push(true);
+    expect(git(root, "--git-dir=origin.git", "rev-parse", "main")).toBe(git(bob, "rev-parse", "HEAD"));
+  });
+
+  it("refuses to force over commits the remote gained since the last fetch", async () => {
+    commit(bob, "c.txt");
+    commit(alice, "b.txt");
+    git(alice, "push");
+    await expect(runRemoteGit(bob, buildPushArgs("origin", "main", { setUpstream: false, forceWithLease: true })))
+      .rejects.toThrow(/stale info/);
+  });
+});
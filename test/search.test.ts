@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { buildSearchArgs, parseLinks, rewriteParents, type CommitLink } from "../src/git/search.js";
+import type { Commit } from "../src/git/types.js";
+
+function commit(hash: string, parents: string[] = []): Commit {
+  return {
+    hash, parents,
+    author: "A", email: "a@x", timestamp: 0,
+    mailmapAuthor: "A", mailmapEmail: "a@x",
+    committer: "A", committerEmail: "a@x", commitTimestamp: 0,
+    treeHash: "t", subject: hash, refs: [],
+  };
+}
+
+const links = (...specs: string[]): CommitLink[] => parseLinks(specs.join("\n") + "\n");
+
+describe("buildSearchArgs", () => {
+  it("matches message and author text literally, ignoring case", () => {
+    expect(buildSearchArgs({ mode: "message", query: "fix (x)" }))
+      .toEqual(["--regexp-ignore-case", "--fixed-strings", "--grep=fix (x)"]);
+    expect(buildSearchArgs({ mode: "author", query: "ann" }))
+      .toEqual(["--regexp-ignore-case", "--fixed-strings", "--author=ann"]);
+  });
+
+  it("uses -S and -G for code changes", () => {
+    expect(buildSearchArgs({ mode: "pickaxe", query: "parseRefs" })).toEqual(["-SparseRefs"]);
+    expect(buildSearchArgs({ mode: "diffRegex", query: "parse\\w+" })).toEqual(["-Gparse\\w+"]);
+  });
+
+  it("needs no git option for a hash prefix", () => {
+    expect(buildSearchArgs({ mode: "hash", query: "abc" })).toEqual([]);
+  });
+});
+
+describe("parseLinks", () => {
+  it("reads each commit with its parents", () => {
+    expect(links("a b c", "b d", "c d", "d")).toEqual([
+      { hash: "a", parents: ["b", "c"] },
+      { hash: "b", parents: ["d"] },
+      { hash: "c", parents: ["d"] },
+      { hash: "d", parents: [] },
+    ]);
+  });
+});
+
+describe("rewriteParents", () => {
+  it("joins a match to its nearest matching ancestor across hidden commits", () => {
+    const history = links("a b", "b c", "c d", "d");
+    const result = rewriteParents([commit("a", ["b"]), commit("d")], new Set(["a", "d"]), history);
+    expect(result.map((c) => [c.hash, c.parents])).toEqual([["a", ["d"]], ["d", []]]);
+  });
+
+  it("drops the commits that are not kept", () => {
+    const history = links("a b", "b");
+    const result = rewriteParents([commit("a", ["b"]), commit("b")], new Set(["b"]), history);
+    expect(result.map((c) => c.hash)).toEqual(["b"]);
+  });
+
+  it("keeps both sides of a hidden merge", () => {
+    // a → m (hidden merge of x and y) → x, y
+    const history = links("a m", "m x y", "x r", "y r", "r");
+    const keep = new Set(["a", "x", "y"]);
+    const result = rewriteParents([commit("a"), commit("x"), commit("y")], keep, history);
+    expect(result[0].parents).toEqual(["x", "y"]);
+    expect(result[1].parents).toEqual([]);
+  });
+
+  it("collapses paths that meet at the same match", () => {
+    // a merges b and c, which both come from d
+    const history = links("a b c", "b d", "c d", "d");
+    const result = rewriteParents([commit("a"), commit("d")], new Set(["a", "d"]), history);
+    expect(result[0].parents).toEqual(["d"]);
+  });
+
+  it("ends the lane when no ancestor matches", () => {
+    const history = links("a b", "b");
+    const result = rewriteParents([commit("a")], new Set(["a"]), history);
+    expect(result[0].parents).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { createUncommittedCommit, filesLostByHardReset, parseStatusOutput } from "../src/git/status.js";
+import { UNCOMMITTED_HASH } from "../src/git/types.js";
+
+// `git status --porcelain=v1 -z` entries are NUL-terminated
+const z = (...entries: string[]) => entries.map((e) => `${e}\0`).join("");
+
+describe("parseStatusOutput", () => {
+  it("returns empty groups for a clean tree", () => {
+    expect(parseStatusOutput("")).toEqual({ staged: [], unstaged: [] });
+  });
+
+  it("splits index and working-tree changes of the same file", () => {
+    expect(parseStatusOutput(z("MM src/a.ts"))).toEqual({
+      staged: [{ status: "M", path: "src/a.ts" }],
+      unstaged: [{ status: "M", path: "src/a.ts" }],
+    });
+  });
+
+  it("reports staged additions and deletions", () => {
+    expect(parseStatusOutput(z("A  new.ts", "D  gone.ts")).staged).toEqual([
+      { status: "A", path: "new.ts" },
+      { status: "D", path: "gone.ts" },
+    ]);
+  });
+
+  it("reads the original path of a staged rename from the following entry", () => {
+    const status = parseStatusOutput(z("R  lib/new name.ts", "lib/old.ts", " M other.ts"));
+    expect(status.staged).toEqual([{ status: "R", path: "lib/new name.ts", oldPath: "lib/old.ts" }]);
+    expect(status.unstaged).toEqual([{ status: "M", path: "other.ts" }]);
+  });
+
+  it("lists untracked files as unstaged additions", () => {
+    expect(parseStatusOutput(z("?? notes.txt")).unstaged).toEqual([{ status: "A", path: "notes.txt" }]);
+  });
+
+  it("reports unmerged paths once, as conflicts", () => {
+    expect(parseStatusOutput(z("UU both.ts", "AA added.ts"))).toEqual({
+      staged: [],
+      unstaged: [{ status: "U", path: "both.ts" }, { status: "U", path: "added.ts" }],
+    });
+  });
+
+  it("ignores ignored-file entries", () => {
+    expect(parseStatusOutput(z("!! build/"))).toEqual({ staged: [], unstaged: [] });
+  });
+});
+
+describe("createUncommittedCommit", () => {
+  it("is parented on HEAD and summarises the counts", () => {
+    const c = createUncommittedCommit("abc", {
+      staged: [{ status: "M", path: "a" }],
+      unstaged: [{ status: "M", path: "b" }, { status: "A", path: "c" }],
+    });
+    expect(c.hash).toBe(UNCOMMITTED_HASH);
+    expect(c.kind).toBe("uncommitted");
+    expect(c.parents).toEqual(["abc"]);
+    expect(c.subject).toBe("Uncommitted changes (1 staged, 2 unstaged)");
+  });
+});
+
+describe("filesLostByHardReset", () => {
+  it("lists staged and modified paths once, sorted, but not untracked files", () => {
+    const status = parseStatusOutput(z("MM src/b.ts", "A  src/a.ts", " D old.ts", "?? notes.txt", "UU both.ts"));
+    expect(filesLostByHardReset(status)).toEqual(["both.ts", "old.ts", "src/a.ts", "src/b.ts"]);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { renderSvg, COL_WIDTH, DOT_RADIUS } from "../src/graph/svgTileGen.js";
+import { GRAPH_PALETTES } from "../src/graph/colors.js";
 import type { GraphRow } from "../src/graph/types.js";
 
 function row(overrides: Partial<GraphRow> = {}): GraphRow {
@@ -56,4 +57,72 @@ describe("renderSvg", () => {
     const svg = renderSvg(row(), 24, 5);
     expect(svg).toContain(`width="${5 * COL_WIDTH + COL_WIDTH}"`);
   });
+
+  it("dashes dashed segments and leaves solid ones plain", () => {
+    const svg = renderSvg(
+      row({ segments: [{ topCol: 0, botCol: 0, color: "#fff", half: "bottom", dashed: true }, { topCol: 1, botCol: 1, color: "#000" }], numCols: 2 }),
+      24,
+    );
+    // shadow + line of the dashed segment
+    expect((svg.match(/stroke-dasharray/g) ?? [])).toHaveLength(2);
+  });
+
+  it("draws a hollow dot outlined in the commit colour", () => {
+    const svg = renderSvg(row({ dot: "hollow", commitColor: "#4FC3F7" }), 24);
+    expect(svg).toMatch(/<circle[^>]*stroke="#4FC3F7"/);
+    expect(svg).not.toContain('fill="#4FC3F7"');
+  });
+
+  it("folds lanes past maxLanes into one column marked +N", () => {
+    const svg = renderSvg(
+      row({
+        commitCol: 0,
+        segments: [
+          { topCol: 0, botCol: 0, color: "#fff" },
+          { topCol: 1, botCol: 1, color: "#111" },
+          { topCol: 2, botCol: 2, color: "#222" },
+          { topCol: 3, botCol: 2, color: "#333" },
+        ],
+        numCols: 4,
+      }),
+      24, 3, 2,
+    );
+    expect(svg).toContain(">+2</text>");
+    // lines running between hidden lanes are left out; visible ones stay
+    expect(svg).not.toContain('stroke="#222"');
+    expect(svg).not.toContain('stroke="#333"');
+    expect(svg).toContain('stroke="#111"');
+    expect(svg).toContain(`width="${3 * COL_WIDTH + COL_WIDTH}"`);
+  });
+
+  it("draws a commit in a hidden lane in the overflow column", () => {
+    const svg = renderSvg(row({ commitCol: 5, segments: [{ topCol: 1, botCol: 5, color: "#111" }], numCols: 6 }), 24, 3, 2);
+    expect(svg).toContain(`cx="${2 * COL_WIDTH + COL_WIDTH / 2}"`);
+    expect(svg).toContain('stroke="#111"');
+    expect(svg).toContain(">+1</text>");
+  });
+
+  it("adds no marker when every lane fits", () => {
+    expect(renderSvg(row(), 24, 1, 2)).not.toContain("<text");
+  });
+
+  it("draws a ghost dot as a dashed outline", () => {
+    const svg = renderSvg(row({ dot: "ghost", commitColor: "#4FC3F7", segments: [] }), 24);
+    expect(svg).toMatch(/<circle[^>]*stroke="#4FC3F7"[^>]*stroke-dasharray/);
+    expect(svg).not.toContain('fill="#4FC3F7"');
+  });
+
+  it("draws with the palette of the theme's kind", () => {
+    const light = renderSvg(row({ segments: [{ topCol: 0, botCol: 0, color: "#4FC3F7" }] }), 24, 1, Infinity, "light");
+    expect(light).toContain(`fill="${GRAPH_PALETTES.light.branches[0]}"`);
+    expect(light).toContain(`stroke="${GRAPH_PALETTES.light.branches[1]}"`);
+    expect(light).toContain('stroke="#ffffff"');
+    expect(light).not.toContain("#1e1e1e");
+  });
+
+  it("keeps colours that aren't from the palette on every theme", () => {
+    const svg = renderSvg(row({ commitColor: "#123456", segments: [] }), 24, 1, Infinity, "highContrast");
+    expect(svg).toContain('fill="#123456"');
+    expect(svg).toContain('stroke="#000000"');
+  });
 });
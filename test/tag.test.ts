@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { parseTagInfo } from "../src/git/tag.js";
+
+describe("parseTagInfo", () => {
+  it("reads an annotated tag's tagger, date and message", () => {
+    const output = "tag\x00Ada\x00<ada@example.com>\x001700000000\x00Release one\n\nNotes here\n\n";
+    expect(parseTagInfo(output)).toEqual({
+      tagger: "Ada",
+      taggerEmail: "ada@example.com",
+      timestamp: 1700000000,
+      message: "Release one\n\nNotes here",
+    });
+  });
+
+  it("returns undefined for a lightweight tag", () => {
+    expect(parseTagInfo("commit\x00\x00\x00\x00\n")).toBeUndefined();
+  });
+
+  it("returns undefined when the tag doesn't exist", () => {
+    expect(parseTagInfo("")).toBeUndefined();
+  });
+});
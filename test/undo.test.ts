@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { planUndo, undoReflogRef } from "../src/git/undo.js";
+
+const OLD = "1".repeat(40);
+const NEW = "2".repeat(40);
+
+describe("undoReflogRef", () => {
+  it("reads HEAD's reflog for a checkout or a detached HEAD, and the branch's otherwise", () => {
+    expect(undoReflogRef({ kind: "checkout" })).toBe("HEAD");
+    expect(undoReflogRef({ kind: "reset", ref: "HEAD", before: OLD })).toBe("HEAD");
+    expect(undoReflogRef({ kind: "rebase", ref: "main", before: OLD })).toBe("refs/heads/main");
+    expect(undoReflogRef({ kind: "deleteBranch", branch: "topic", tip: OLD })).toBeUndefined();
+  });
+});
+
+describe("planUndo", () => {
+  it("checks out the branch a checkout moved away from", () => {
+    const plan = planUndo({ kind: "checkout" }, [{ hash: NEW, message: "checkout: moving from main to topic" }]);
+    expect(plan.args).toEqual(["checkout", "main"]);
+  });
+
+  it("goes back to a detached commit with --detach", () => {
+    const plan = planUndo({ kind: "checkout" }, [{ hash: NEW, message: `checkout: moving from ${OLD} to main` }]);
+    expect(plan.args).toEqual(["checkout", "--detach", OLD]);
+  });
+
+  it("moves the branch back to where it was before a reset, merge or rebase", () => {
+    const previous = { hash: OLD, message: "commit: work" };
+    expect(planUndo({ kind: "reset", ref: "main", before: OLD }, [{ hash: NEW, message: "reset: moving to HEAD~2" }, previous]).args)
+      .toEqual(["reset", "--keep", OLD]);
+    expect(planUndo({ kind: "merge", ref: "main", before: OLD }, [{ hash: NEW, message: "merge topic: Fast-forward" }, previous]).args)
+      .toEqual(["reset", "--keep", OLD]);
+    expect(planUndo({ kind: "merge", ref: "main", before: OLD }, [{ hash: NEW, message: "commit (merge): Merge branch 'topic'" }, previous]).args)
+      .toEqual(["reset", "--keep", OLD]);
+    expect(planUndo({ kind: "rebase", ref: "main", before: OLD }, [{ hash: NEW, message: "rebase (finish): refs/heads/main onto abc" }, previous]).args)
+      .toEqual(["reset", "--keep", OLD]);
+  });
+
+  it("re-creates a deleted branch at its old tip", () => {
+    expect(planUndo({ kind: "deleteBranch", branch: "topic", tip: OLD }, []).args).toEqual(["branch", "topic", OLD]);
+  });
+
+  it("refuses when the ref has moved since", () => {
+    expect(() => planUndo({ kind: "checkout" }, [{ hash: NEW, message: "commit: later work" }])).toThrow(/has changed/);
+    expect(() => planUndo({ kind: "reset", ref: "main", before: OLD }, [])).toThrow(/has changed/);
+  });
+
+  it("refuses when the operation never finished", () => {
+    // An aborted rebase leaves the branch's newest entry from before it started
+    const entries = [{ hash: OLD, message: "rebase (finish): refs/heads/main onto abc" }, { hash: NEW, message: "commit: work" }];
+    expect(() => planUndo({ kind: "rebase", ref: "main", before: OLD }, entries)).toThrow(/has changed/);
+  });
+});